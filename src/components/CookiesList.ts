@@ -0,0 +1,215 @@
+import { NetworkRequest } from '../types';
+import { StateManager } from '../core/StateManager';
+import { CookieRow, getRequestCookies, getResponseCookies } from '../utils/cookies';
+import { CopyUtil } from '../utils/copy';
+import { showToast } from '../utils/toast';
+
+const COLUMNS = ['Name', 'Value', 'Domain', 'Path', 'Expires', 'HttpOnly', 'Secure', 'SameSite', 'Size'];
+
+// Request and response cookies of the selected request as a navigable table
+export class CookiesList {
+  private container: HTMLElement;
+  private stateManager: StateManager;
+  private cookies: CookieRow[] = [];
+  private selectedIndex: number = 0;
+  private lastRequestId: string = '';
+  private lastSelectedIndex: number = -1;
+  private lastRequestHeaders: Record<string, string> | null = null; // Replaced when ExtraInfo headers arrive
+  private lastResponseHeaders: Record<string, string> | null = null;
+
+  constructor(container: HTMLElement, stateManager: StateManager) {
+    this.container = container;
+    this.stateManager = stateManager;
+
+    this.stateManager.subscribe(this.render.bind(this));
+    this.render(this.stateManager.getState());
+  }
+
+  private render(state: any): void {
+    // Only render when cookies tab is active
+    if (state.previewTab !== 'cookies') {
+      // Force a full render next time the tab is shown
+      this.lastRequestId = '';
+      return;
+    }
+
+    const requests = this.stateManager.getFilteredRequests();
+    const selectedRequest = requests[state.selectedIndex];
+
+    if (!selectedRequest) {
+      this.renderEmpty('No request selected');
+      this.cookies = [];
+      this.lastRequestId = '';
+      return;
+    }
+
+    // Check if we can skip render (optimization)
+    const requestChanged = this.lastRequestId !== selectedRequest.id ||
+      this.lastRequestHeaders !== selectedRequest.requestHeaders ||
+      this.lastResponseHeaders !== selectedRequest.responseHeaders;
+    const selectionChanged = this.lastSelectedIndex !== state.cookiesSelectedIndex;
+
+    if (!requestChanged && !selectionChanged) {
+      return; // No changes, skip render
+    }
+
+    this.selectedIndex = state.cookiesSelectedIndex;
+
+    if (requestChanged) {
+      const requestCookies = getRequestCookies(selectedRequest);
+      const responseCookies = getResponseCookies(selectedRequest);
+      this.cookies = [...requestCookies, ...responseCookies];
+
+      // Clamp selected index to valid range
+      if (this.selectedIndex >= this.cookies.length && this.cookies.length > 0) {
+        this.selectedIndex = this.cookies.length - 1;
+        this.stateManager.setState({ cookiesSelectedIndex: this.selectedIndex });
+      }
+
+      this.renderCookies(selectedRequest, requestCookies, responseCookies);
+      this.lastRequestId = selectedRequest.id;
+      this.lastRequestHeaders = selectedRequest.requestHeaders;
+      this.lastResponseHeaders = selectedRequest.responseHeaders;
+    } else {
+      // Only update selection highlight (faster than full re-render)
+      this.updateSelection();
+    }
+
+    this.lastSelectedIndex = state.cookiesSelectedIndex;
+  }
+
+  private renderCookies(request: NetworkRequest, requestCookies: CookieRow[], responseCookies: CookieRow[]): void {
+    if (this.cookies.length === 0) {
+      this.renderEmpty(request.status === 0 ? 'No cookies sent (response pending)' : 'No cookies for this request');
+      return;
+    }
+
+    // Use DocumentFragment for batch DOM updates
+    const fragment = document.createDocumentFragment();
+
+    if (requestCookies.length > 0) {
+      fragment.appendChild(this.createTitle(`Request Cookies (${requestCookies.length})`));
+      fragment.appendChild(this.createHeaderRow());
+      requestCookies.forEach((cookie, index) => fragment.appendChild(this.createCookieRow(cookie, index)));
+    }
+
+    if (responseCookies.length > 0) {
+      fragment.appendChild(this.createTitle(`Response Cookies (${responseCookies.length})`));
+      fragment.appendChild(this.createHeaderRow());
+      responseCookies.forEach((cookie, index) => fragment.appendChild(this.createCookieRow(cookie, requestCookies.length + index)));
+    }
+
+    // Clear and append in one operation
+    this.container.innerHTML = '';
+    this.container.appendChild(fragment);
+
+    this.scrollToSelected();
+  }
+
+  private createTitle(text: string): HTMLElement {
+    const title = document.createElement('h3');
+    title.className = 'cookies-section-title';
+    title.textContent = text;
+    return title;
+  }
+
+  private createHeaderRow(): HTMLElement {
+    const header = document.createElement('div');
+    header.className = 'cookie-row cookie-header';
+    COLUMNS.forEach(label => {
+      const cell = document.createElement('span');
+      cell.textContent = label;
+      header.appendChild(cell);
+    });
+    return header;
+  }
+
+  private createCookieRow(cookie: CookieRow, index: number): HTMLElement {
+    const blocked = cookie.blockedReasons.length > 0;
+    const row = document.createElement('div');
+    row.className = `cookie-row cookie-item ${blocked ? 'blocked' : ''} ${index === this.selectedIndex ? 'selected' : ''}`;
+    row.dataset.index = index.toString();
+    if (blocked) {
+      row.title = `Blocked: ${cookie.blockedReasons.join(', ')}`;
+    }
+
+    const cells = [
+      blocked ? `⊘ ${cookie.name}` : cookie.name,
+      cookie.value,
+      cookie.domain,
+      cookie.path,
+      cookie.expires,
+      cookie.httpOnly ? '✓' : '',
+      cookie.secure ? '✓' : '',
+      cookie.sameSite,
+      cookie.size.toString()
+    ];
+    cells.forEach(text => {
+      const cell = document.createElement('span');
+      cell.textContent = text;
+      cell.title = row.title || text;
+      row.appendChild(cell);
+    });
+
+    // Add click handler for selection
+    row.addEventListener('click', () => {
+      this.selectedIndex = index;
+      this.stateManager.setState({ cookiesSelectedIndex: index });
+    });
+
+    return row;
+  }
+
+  private updateSelection(): void {
+    // Fast selection update without full re-render
+    const items = this.container.querySelectorAll('.cookie-item');
+    items.forEach((item, index) => {
+      item.classList.toggle('selected', index === this.selectedIndex);
+    });
+
+    this.scrollToSelected();
+  }
+
+  private renderEmpty(message: string): void {
+    this.container.innerHTML = '';
+    const p = document.createElement('p');
+    p.textContent = message;
+    this.container.appendChild(p);
+  }
+
+  private scrollToSelected(): void {
+    requestAnimationFrame(() => {
+      const selectedItem = this.container.querySelector('.cookie-item.selected');
+      if (selectedItem) {
+        selectedItem.scrollIntoView({ block: 'nearest', behavior: 'auto' });
+      }
+    });
+  }
+
+  // Public methods for keyboard navigation
+  public moveSelection(delta: number): void {
+    if (this.cookies.length === 0) return;
+
+    this.selectedIndex = Math.max(0, Math.min(this.cookies.length - 1, this.selectedIndex + delta));
+    this.stateManager.setState({ cookiesSelectedIndex: this.selectedIndex });
+  }
+
+  public navigateTo(position: 'first' | 'last'): void {
+    if (this.cookies.length === 0) return;
+
+    this.selectedIndex = position === 'first' ? 0 : this.cookies.length - 1;
+    this.stateManager.setState({ cookiesSelectedIndex: this.selectedIndex });
+  }
+
+  public getSelectedCookie(): CookieRow | null {
+    return this.cookies[this.selectedIndex] || null;
+  }
+
+  public copySelectedCookieValue(): void {
+    const cookie = this.getSelectedCookie();
+    if (cookie) {
+      CopyUtil.toClipboard(cookie.value);
+      showToast(`Copied value of ${cookie.name}`);
+    }
+  }
+}
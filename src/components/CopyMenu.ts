@@ -1,6 +1,7 @@
 import { StateManager } from '../core/StateManager';
-import { AppMode } from '../types';
+import { AppMode, NetworkRequest } from '../types';
 import { CopyUtil } from '../utils/copy';
+import { showToast } from '../utils/toast';
 
 export class CopyMenu {
   private container: HTMLElement;
@@ -63,7 +64,7 @@ export class CopyMenu {
     this.executeActionByIndex(this.selectedMenuItem);
   }
 
-  private executeActionByIndex(index: number): void {
+  private async executeActionByIndex(index: number): Promise<void> {
     const item = this.menuItems[index];
     if (!item) return;
 
@@ -77,10 +78,14 @@ export class CopyMenu {
     let toastMessage = '';
 
     switch (item.action) {
-      case 'curl':
+      case 'curl': {
+        // Large and multipart bodies are not part of the captured event
+        const networkCapture = (window as unknown as { networkCapture?: { fetchRequestBodyLazy: (request: NetworkRequest) => Promise<void> } }).networkCapture;
+        await networkCapture?.fetchRequestBodyLazy(selectedRequest);
         text = CopyUtil.copyAsCurl(selectedRequest);
         toastMessage = 'Copied as cURL';
         break;
+      }
         
       case 'url':
         text = CopyUtil.copyUrl(selectedRequest);
@@ -105,31 +110,11 @@ export class CopyMenu {
     
     if (text) {
       CopyUtil.toClipboard(text);
-      this.showToast(toastMessage);
+      showToast(toastMessage);
     }
     
     // Exit copy mode after action
     this.stateManager.setState({ mode: AppMode.NORMAL });
     this.selectedMenuItem = 0; // Reset selection for next time
   }
-
-  private showToast(message: string): void {
-    const toast = document.createElement('div');
-    toast.className = 'toast';
-    toast.textContent = message;
-    document.body.appendChild(toast);
-    
-    setTimeout(() => {
-      toast.classList.add('visible');
-    }, 10);
-    
-    setTimeout(() => {
-      toast.classList.remove('visible');
-      setTimeout(() => {
-        if (toast.parentNode) {
-          document.body.removeChild(toast);
-        }
-      }, 300);
-    }, 2000);
-  }
 }
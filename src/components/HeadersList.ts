@@ -1,8 +1,10 @@
 import { NetworkRequest, InspectFocus } from '../types';
 import { StateManager } from '../core/StateManager';
 
+export type HeaderSection = 'general' | 'redirects' | 'cookies' | 'request' | 'response';
+
 export interface HeaderItem {
-  section: 'general' | 'request' | 'response';
+  section: HeaderSection;
   key: string;
   value: string;
   index: number;
@@ -42,6 +44,30 @@ export class HeadersList {
       });
     }
 
+    // Add redirect hops
+    if (!this.collapsedSections.has('redirects')) {
+      Object.entries(this.getRedirectItems(request)).forEach(([key, value]) => {
+        items.push({
+          section: 'redirects',
+          key,
+          value,
+          index: index++
+        });
+      });
+    }
+
+    // Add blocked cookies
+    if (!this.collapsedSections.has('cookies')) {
+      this.getBlockedCookieItems(request).forEach(([key, value]) => {
+        items.push({
+          section: 'cookies',
+          key,
+          value,
+          index: index++
+        });
+      });
+    }
+
     // Add request headers
     if (!this.collapsedSections.has('request')) {
       Object.entries(request.requestHeaders).forEach(([key, value]) => {
@@ -71,12 +97,48 @@ export class HeadersList {
 
   private getGeneralItems(request: NetworkRequest): [string, string][] {
     const statusText = request.statusText || this.getStatusText(request.status);
-    return [
+    const items: [string, string][] = [
       ['Request URL', request.url],
       ['Request Method', request.method],
       ['Status Code', `${request.status} ${statusText}`],
       ['Resource Type', request.type]
     ];
+
+    if (request.blockedReason) {
+      items.push(['Blocked Reason', request.blockedReason]);
+    }
+
+    // Link resent requests to their original (which may have been cleared since)
+    if (request.replayOf) {
+      const original = this.stateManager.getState().requests.find(r => r.id === request.replayOf);
+      items.push(['Replay Of', original ? `${original.method} ${original.url}` : `request ${request.replayOf} (cleared)`]);
+    }
+
+    return items;
+  }
+
+  // One entry per redirect hop: "1. 302 GET" -> "from → to (duration)"
+  private getRedirectItems(request: NetworkRequest): Record<string, string> {
+    const items: Record<string, string> = {};
+    (request.redirectChain || []).forEach((hop, i) => {
+      items[`${i + 1}. ${hop.status} ${hop.method}`] = `${hop.url} → ${hop.location} (${Math.round(hop.duration)} ms)`;
+    });
+    return items;
+  }
+
+  // Cookies the browser withheld from the request or refused to store, with the reasons
+  // Entries, not a Record: cookies can share a name (other paths, repeated Set-Cookie lines)
+  private getBlockedCookieItems(request: NetworkRequest): [string, string][] {
+    const items: [string, string][] = [];
+    (request.associatedCookies || [])
+      .filter(cookie => cookie.blockedReasons.length > 0)
+      .forEach(cookie => {
+        items.push([`Cookie ${cookie.name}`, `not sent: ${cookie.blockedReasons.join(', ')}`]);
+      });
+    (request.blockedCookies || []).forEach(cookie => {
+      items.push([`Set-Cookie ${cookie.name}`, `not stored: ${cookie.blockedReasons.join(', ')}`]);
+    });
+    return items;
   }
 
   private getStatusText(status: number): string {
@@ -168,11 +230,32 @@ export class HeadersList {
     const generalSection = this.createGeneralSection(request);
     fragment.appendChild(generalSection);
 
+    // Render Redirect Chain section (only for redirected requests)
+    if (request.redirectChain && request.redirectChain.length > 0) {
+      const redirectSection = this.createSection(
+        'redirects',
+        'Redirect Chain',
+        Object.entries(this.getRedirectItems(request))
+      );
+      fragment.appendChild(redirectSection);
+    }
+
+    // Render Blocked Cookies section (only when the browser blocked any)
+    const blockedCookies = this.getBlockedCookieItems(request);
+    if (blockedCookies.length > 0) {
+      const cookiesSection = this.createSection(
+        'cookies',
+        'Blocked Cookies',
+        blockedCookies
+      );
+      fragment.appendChild(cookiesSection);
+    }
+
     // Render Request Headers section
     const requestSection = this.createSection(
       'request',
       'Request Headers',
-      request.requestHeaders
+      Object.entries(request.requestHeaders)
     );
     fragment.appendChild(requestSection);
 
@@ -180,7 +263,7 @@ export class HeadersList {
     const responseSection = this.createSection(
       'response',
       'Response Headers',
-      request.responseHeaders
+      Object.entries(request.responseHeaders)
     );
     fragment.appendChild(responseSection);
 
@@ -220,8 +303,8 @@ export class HeadersList {
     listDiv.className = `headers-list ${isCollapsed ? 'collapsed' : ''}`;
 
     if (!isCollapsed) {
-      generalItems.forEach(([key, value]) => {
-        const globalIndex = this.getGlobalIndex('general', key);
+      generalItems.forEach(([key, value], position) => {
+        const globalIndex = this.getGlobalIndex('general', position);
         const isSelected = globalIndex === this.selectedIndex;
 
         const itemDiv = document.createElement('div');
@@ -274,9 +357,9 @@ export class HeadersList {
   }
 
   private createSection(
-    section: 'general' | 'request' | 'response',
+    section: HeaderSection,
     title: string,
-    headers: Record<string, string>
+    headers: [string, string][]
   ): HTMLElement {
     const isCollapsed = this.collapsedSections.has(section);
     const icon = isCollapsed ? '▶' : '▼';
@@ -289,7 +372,7 @@ export class HeadersList {
     titleElement.className = 'headers-section-title';
     titleElement.dataset.section = section;
     titleElement.innerHTML = `
-      <span class="collapse-icon">${icon}</span> ${title} (${Object.keys(headers).length})
+      <span class="collapse-icon">${icon}</span> ${title} (${headers.length})
     `;
     
     // Add click handler for collapsing/expanding
@@ -304,8 +387,8 @@ export class HeadersList {
     listDiv.className = `headers-list ${isCollapsed ? 'collapsed' : ''}`;
 
     if (!isCollapsed) {
-      Object.entries(headers).forEach(([key, value]) => {
-        const globalIndex = this.getGlobalIndex(section, key);
+      headers.forEach(([key, value], position) => {
+        const globalIndex = this.getGlobalIndex(section, position);
         const isSelected = globalIndex === this.selectedIndex;
         
         const itemDiv = document.createElement('div');
@@ -337,8 +420,9 @@ export class HeadersList {
     return sectionDiv;
   }
 
-  private getGlobalIndex(section: 'general' | 'request' | 'response', key: string): number {
-    return this.headers.findIndex(h => h.section === section && h.key === key);
+  // Position within the section, since keys can repeat (blocked cookies)
+  private getGlobalIndex(section: HeaderSection, position: number): number {
+    return this.headers.findIndex(h => h.section === section) + position;
   }
 
   private renderEmpty(): void {
@@ -377,14 +461,15 @@ export class HeadersList {
     this.stateManager.setState({ headersSelectedIndex: this.selectedIndex });
   }
 
-  public toggleSection(section: 'general' | 'request' | 'response'): void {
+  public toggleSection(section: HeaderSection): void {
     if (this.collapsedSections.has(section)) {
       this.collapsedSections.delete(section);
     } else {
       this.collapsedSections.add(section);
     }
 
-    // Re-render
+    // Re-render (force the list to rebuild for the same request)
+    this.lastRequestId = '';
     this.render(this.stateManager.getState());
   }
 
@@ -0,0 +1,153 @@
+import { BinaryBody } from '../types';
+import { StateManager } from '../core/StateManager';
+import { base64ToBytes } from '../utils/encoding';
+import { CopyUtil } from '../utils/copy';
+import { showToast } from '../utils/toast';
+
+const BYTES_PER_ROW = 16;
+const MAX_ROWS = 4096; // First 64 KiB: enough to recognise a format without building a huge DOM
+
+// Offset / hex / ASCII dump of a binary response body, navigated row by row in the Response tab
+export class HexDumpView {
+  private container: HTMLElement;
+  private stateManager: StateManager;
+  private bytes: Uint8Array = new Uint8Array(0);
+  private rowCount: number = 0;
+  private selectedIndex: number = 0;
+  private lastSelectedIndex: number = -1;
+
+  constructor(container: HTMLElement, stateManager: StateManager) {
+    this.container = container;
+    this.stateManager = stateManager;
+    this.stateManager.subscribe(this.onStateChange.bind(this));
+  }
+
+  // Follow selection changes without rebuilding the rows
+  private onStateChange(state: any): void {
+    if (this.rowCount === 0 || state.hexSelectedIndex === this.lastSelectedIndex) return;
+
+    this.lastSelectedIndex = state.hexSelectedIndex;
+    this.selectedIndex = Math.min(state.hexSelectedIndex, this.rowCount - 1);
+    this.updateSelection();
+  }
+
+  render(body: BinaryBody): void {
+    // Only decode what is shown (base64 decodes in 4 char / 3 byte groups)
+    const shownBytes = MAX_ROWS * BYTES_PER_ROW;
+    this.bytes = base64ToBytes(body.data.slice(0, Math.ceil(shownBytes / 3) * 4)).subarray(0, shownBytes);
+    this.rowCount = Math.ceil(this.bytes.length / BYTES_PER_ROW);
+    this.selectedIndex = 0;
+    this.lastSelectedIndex = this.stateManager.getState().hexSelectedIndex; // Ignore the previous body's selection
+
+    // Use DocumentFragment for batch DOM updates
+    const fragment = document.createDocumentFragment();
+
+    const summary = document.createElement('div');
+    summary.className = 'hex-summary';
+    summary.textContent = `${body.mimeType} · ${body.size.toLocaleString()} bytes`;
+    fragment.appendChild(summary);
+
+    for (let index = 0; index < this.rowCount; index++) {
+      fragment.appendChild(this.createRow(index));
+    }
+
+    if (body.size > shownBytes) {
+      const note = document.createElement('div');
+      note.className = 'hex-summary';
+      note.textContent = `… ${(body.size - shownBytes).toLocaleString()} more bytes not shown`;
+      fragment.appendChild(note);
+    }
+
+    // Clear and append in one operation
+    this.container.innerHTML = '';
+    this.container.appendChild(fragment);
+
+    this.stateManager.setState({ hexSelectedIndex: 0 });
+  }
+
+  // Called when the Response tab shows text instead (the container is reused)
+  clear(): void {
+    this.bytes = new Uint8Array(0);
+    this.rowCount = 0;
+  }
+
+  hasContent(): boolean {
+    return this.rowCount > 0;
+  }
+
+  private createRow(index: number): HTMLElement {
+    const start = index * BYTES_PER_ROW;
+    const rowBytes = this.bytes.subarray(start, start + BYTES_PER_ROW);
+
+    const row = document.createElement('div');
+    row.className = `hex-row ${index === this.selectedIndex ? 'selected' : ''}`;
+    row.dataset.index = index.toString();
+
+    const offset = document.createElement('span');
+    offset.className = 'hex-offset';
+    offset.textContent = start.toString(16).padStart(8, '0');
+
+    const hex = document.createElement('span');
+    hex.className = 'hex-bytes';
+    hex.textContent = this.formatHex(rowBytes);
+
+    const ascii = document.createElement('span');
+    ascii.className = 'hex-ascii';
+    ascii.textContent = Array.from(rowBytes, byte => byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.').join('');
+
+    row.append(offset, hex, ascii);
+
+    // Add click handler for selection
+    row.addEventListener('click', () => {
+      this.selectedIndex = index;
+      this.stateManager.setState({ hexSelectedIndex: index });
+    });
+
+    return row;
+  }
+
+  // Two groups of eight bytes, padded so the ASCII column lines up on the last row
+  private formatHex(rowBytes: Uint8Array): string {
+    const cells = Array.from({ length: BYTES_PER_ROW }, (_, i) =>
+      i < rowBytes.length ? rowBytes[i].toString(16).padStart(2, '0') : '  '
+    );
+    return `${cells.slice(0, 8).join(' ')}  ${cells.slice(8).join(' ')}`;
+  }
+
+  private updateSelection(): void {
+    const rows = this.container.querySelectorAll('.hex-row');
+    rows.forEach((row, index) => {
+      row.classList.toggle('selected', index === this.selectedIndex);
+    });
+
+    const selectedRow = rows[this.selectedIndex];
+    if (selectedRow) {
+      selectedRow.scrollIntoView({ block: 'nearest', behavior: 'auto' });
+    }
+  }
+
+  // Public methods for keyboard navigation
+  public moveSelection(delta: number): void {
+    if (this.rowCount === 0) return;
+
+    this.selectedIndex = Math.max(0, Math.min(this.rowCount - 1, this.selectedIndex + delta));
+    this.stateManager.setState({ hexSelectedIndex: this.selectedIndex });
+  }
+
+  public navigateTo(position: 'first' | 'last'): void {
+    if (this.rowCount === 0) return;
+
+    this.selectedIndex = position === 'first' ? 0 : this.rowCount - 1;
+    this.stateManager.setState({ hexSelectedIndex: this.selectedIndex });
+  }
+
+  // Copy the selected row's bytes as hex
+  public copySelectedRow(): void {
+    if (this.rowCount === 0) return;
+
+    const start = this.selectedIndex * BYTES_PER_ROW;
+    const text = Array.from(this.bytes.subarray(start, start + BYTES_PER_ROW), byte => byte.toString(16).padStart(2, '0')).join(' ');
+    CopyUtil.toClipboard(text);
+    showToast(`Copied bytes at offset 0x${start.toString(16).padStart(8, '0')}`);
+  }
+}
@@ -0,0 +1,220 @@
+import { NetworkRequest, StackFrame } from '../types';
+import { StateManager } from '../core/StateManager';
+import { showToast } from '../utils/toast';
+
+// Initiator of the selected request: its type and the source locations that caused it
+export class InitiatorView {
+  private container: HTMLElement;
+  private stateManager: StateManager;
+  private frames: StackFrame[] = [];
+  private selectedIndex: number = 0;
+  private lastRequestId: string = '';
+  private lastSelectedIndex: number = -1;
+
+  constructor(container: HTMLElement, stateManager: StateManager) {
+    this.container = container;
+    this.stateManager = stateManager;
+
+    this.stateManager.subscribe(this.render.bind(this));
+    this.render(this.stateManager.getState());
+  }
+
+  private render(state: any): void {
+    // Only render when initiator tab is active
+    if (state.previewTab !== 'initiator') {
+      // Force a full render next time the tab is shown
+      this.lastRequestId = '';
+      return;
+    }
+
+    const requests = this.stateManager.getFilteredRequests();
+    const selectedRequest = requests[state.selectedIndex];
+
+    if (!selectedRequest) {
+      this.renderMessage('No request selected');
+      this.frames = [];
+      this.lastRequestId = '';
+      return;
+    }
+
+    // Check if we can skip render (optimization)
+    const requestChanged = this.lastRequestId !== selectedRequest.id;
+    const selectionChanged = this.lastSelectedIndex !== state.initiatorSelectedIndex;
+
+    if (!requestChanged && !selectionChanged) {
+      return; // No changes, skip render
+    }
+
+    this.selectedIndex = state.initiatorSelectedIndex;
+
+    if (requestChanged) {
+      this.frames = this.getLocations(selectedRequest);
+
+      // Clamp selected index to valid range
+      if (this.selectedIndex >= this.frames.length && this.frames.length > 0) {
+        this.selectedIndex = this.frames.length - 1;
+        this.stateManager.setState({ initiatorSelectedIndex: this.selectedIndex });
+      }
+
+      this.renderInitiator(selectedRequest);
+      this.lastRequestId = selectedRequest.id;
+    } else {
+      // Only update selection highlight (faster than full re-render)
+      this.updateSelection();
+    }
+
+    this.lastSelectedIndex = state.initiatorSelectedIndex;
+  }
+
+  // Script initiators have a stack; parser and other initiators point at a single location
+  private getLocations(request: NetworkRequest): StackFrame[] {
+    const initiator = request.initiator;
+    if (!initiator) return [];
+    if (initiator.stack.length > 0) return initiator.stack;
+    if (!initiator.url) return [];
+
+    return [{
+      functionName: '',
+      url: initiator.url,
+      lineNumber: initiator.lineNumber ?? 0,
+      columnNumber: initiator.columnNumber ?? 0
+    }];
+  }
+
+  private renderInitiator(request: NetworkRequest): void {
+    const initiator = request.initiator;
+    if (!initiator) {
+      this.renderMessage('No initiator information');
+      return;
+    }
+
+    // Use DocumentFragment for batch DOM updates
+    const fragment = document.createDocumentFragment();
+
+    const summary = document.createElement('div');
+    summary.className = 'initiator-summary';
+    summary.textContent = `Initiator type: ${initiator.type}`;
+    fragment.appendChild(summary);
+
+    // Preflights point at the request they were sent for (which may have been cleared since)
+    if (initiator.requestId) {
+      const original = this.stateManager.getState().requests.find(r => r.id === initiator.requestId);
+      const note = document.createElement('div');
+      note.className = 'initiator-summary';
+      note.textContent = `Preflight for ${original ? `${original.method} ${original.url}` : `request ${initiator.requestId}`}`;
+      fragment.appendChild(note);
+    }
+
+    if (this.frames.length === 0) {
+      const p = document.createElement('p');
+      p.textContent = 'No source location (e.g. typed in the address bar or started by the browser)';
+      fragment.appendChild(p);
+    }
+
+    this.frames.forEach((frame, index) => {
+      if (frame.asyncDescription) {
+        const boundary = document.createElement('div');
+        boundary.className = 'initiator-async';
+        boundary.textContent = `── ${frame.asyncDescription} ──`;
+        fragment.appendChild(boundary);
+      }
+      fragment.appendChild(this.createFrameRow(frame, index));
+    });
+
+    // Clear and append in one operation
+    this.container.innerHTML = '';
+    this.container.appendChild(fragment);
+
+    this.scrollToSelected();
+  }
+
+  private createFrameRow(frame: StackFrame, index: number): HTMLElement {
+    const row = document.createElement('div');
+    row.className = `initiator-row initiator-item ${index === this.selectedIndex ? 'selected' : ''}`;
+    row.dataset.index = index.toString();
+
+    const functionSpan = document.createElement('span');
+    functionSpan.className = 'initiator-function';
+    functionSpan.textContent = frame.functionName || '(anonymous)';
+
+    // Display positions 1-based like the Sources panel
+    const location = `${frame.url}:${frame.lineNumber + 1}:${frame.columnNumber + 1}`;
+    const locationSpan = document.createElement('span');
+    locationSpan.className = 'initiator-location';
+    locationSpan.textContent = location;
+    locationSpan.title = location;
+
+    row.append(functionSpan, locationSpan);
+
+    // Click selects, double click opens in Sources
+    row.addEventListener('click', () => {
+      this.selectedIndex = index;
+      this.stateManager.setState({ initiatorSelectedIndex: index });
+    });
+    row.addEventListener('dblclick', () => this.openFrame(frame));
+
+    return row;
+  }
+
+  private updateSelection(): void {
+    // Fast selection update without full re-render
+    const items = this.container.querySelectorAll('.initiator-item');
+    items.forEach((item, index) => {
+      item.classList.toggle('selected', index === this.selectedIndex);
+    });
+
+    this.scrollToSelected();
+  }
+
+  private renderMessage(message: string): void {
+    this.container.innerHTML = '';
+    const p = document.createElement('p');
+    p.textContent = message;
+    this.container.appendChild(p);
+  }
+
+  private scrollToSelected(): void {
+    requestAnimationFrame(() => {
+      const selectedItem = this.container.querySelector('.initiator-item.selected');
+      if (selectedItem) {
+        selectedItem.scrollIntoView({ block: 'nearest', behavior: 'auto' });
+      }
+    });
+  }
+
+  private openFrame(frame: StackFrame): void {
+    if (!frame.url) {
+      showToast('Frame has no source URL (eval or inline code)');
+      return;
+    }
+    chrome.devtools.panels.openResource(frame.url, frame.lineNumber, frame.columnNumber, () => {});
+  }
+
+  // Public methods for keyboard navigation
+  public moveSelection(delta: number): void {
+    if (this.frames.length === 0) return;
+
+    this.selectedIndex = Math.max(0, Math.min(this.frames.length - 1, this.selectedIndex + delta));
+    this.stateManager.setState({ initiatorSelectedIndex: this.selectedIndex });
+  }
+
+  public navigateTo(position: 'first' | 'last'): void {
+    if (this.frames.length === 0) return;
+
+    this.selectedIndex = position === 'first' ? 0 : this.frames.length - 1;
+    this.stateManager.setState({ initiatorSelectedIndex: this.selectedIndex });
+  }
+
+  // Open the selected frame in the Sources panel (the innermost one when the tab isn't showing this request)
+  public openSelectedFrame(request: NetworkRequest): void {
+    const frame = request.id === this.lastRequestId
+      ? this.frames[this.selectedIndex]
+      : this.getLocations(request)[0];
+
+    if (!frame) {
+      showToast('No initiator source location for this request');
+      return;
+    }
+    this.openFrame(frame);
+  }
+}
@@ -0,0 +1,152 @@
+import { StateManager } from '../core/StateManager';
+import { AppMode } from '../types';
+
+export interface ListPanelItem {
+  label: string;
+  enabled: boolean;                        // Disabled items are dimmed
+}
+
+export interface ListPanelOptions {
+  title: string;
+  emptyMessage: string;
+  getItems: () => ListPanelItem[];         // Re-read after every change
+  onEdit?: (index: number) => void;        // Enter
+  editLabel?: string;                      // Hint for Enter (defaults to 'edit')
+  onToggle?: (index: number) => void;      // Space
+  onDelete?: (index: number) => void;      // dd
+  onAdd?: () => void;                      // a
+  onUndo?: () => void;                     // u
+  onMove?: (index: number, delta: number) => boolean; // J/K, returns false if the item can't move
+}
+
+// Modal list of rules (mocks, blocked URLs, cookies...) navigated with j/k
+export class ListPanel {
+  private container: HTMLElement;
+  private stateManager: StateManager;
+  private options: ListPanelOptions | null = null;
+  private items: ListPanelItem[] = [];
+  private selectedIndex: number = 0;
+
+  constructor(container: HTMLElement, stateManager: StateManager) {
+    this.container = container;
+    this.stateManager = stateManager;
+
+    this.stateManager.subscribe(this.render.bind(this));
+  }
+
+  private render(state: any): void {
+    // Hide when another mode takes over (e.g. the editor opened from an item)
+    if (state.mode !== AppMode.LIST && this.options) {
+      this.options = null;
+      this.container.classList.add('hidden');
+      this.container.innerHTML = '';
+    }
+  }
+
+  public open(options: ListPanelOptions): void {
+    this.options = options;
+    this.selectedIndex = 0;
+    this.refresh();
+    this.container.classList.remove('hidden');
+    this.stateManager.setState({ mode: AppMode.LIST });
+  }
+
+  // Re-read items and redraw (called after edits, and by owners whose items load asynchronously)
+  public refresh(): void {
+    if (!this.options) return;
+
+    this.items = this.options.getItems();
+    this.selectedIndex = Math.max(0, Math.min(this.items.length - 1, this.selectedIndex));
+
+    // Use DocumentFragment for batch DOM updates
+    const fragment = document.createDocumentFragment();
+
+    const title = document.createElement('div');
+    title.className = 'list-title';
+    title.textContent = this.options.title;
+    fragment.appendChild(title);
+
+    if (this.items.length === 0) {
+      const empty = document.createElement('p');
+      empty.className = 'list-empty';
+      empty.textContent = this.options.emptyMessage;
+      fragment.appendChild(empty);
+    }
+
+    this.items.forEach((item, index) => {
+      const row = document.createElement('div');
+      row.className = `list-item ${index === this.selectedIndex ? 'selected' : ''} ${item.enabled ? '' : 'disabled'}`;
+      row.textContent = item.label;
+      row.title = item.label;
+      fragment.appendChild(row);
+    });
+
+    const hints = ['j/k move'];
+    if (this.options.onEdit) hints.push(`Enter ${this.options.editLabel || 'edit'}`);
+    if (this.options.onToggle) hints.push('Space enable/disable');
+    if (this.options.onMove) hints.push('J/K reorder');
+    if (this.options.onAdd) hints.push('a add');
+    if (this.options.onDelete) hints.push('dd delete');
+    if (this.options.onUndo) hints.push('u undo delete');
+    hints.push('q close');
+
+    const hint = document.createElement('div');
+    hint.className = 'editor-hint';
+    hint.textContent = hints.join(' · ');
+    fragment.appendChild(hint);
+
+    // Clear and append in one operation
+    this.container.innerHTML = '';
+    this.container.appendChild(fragment);
+
+    this.container.querySelector('.list-item.selected')?.scrollIntoView({ block: 'nearest' });
+  }
+
+  // Public methods for keyboard navigation
+  public moveSelection(delta: number): void {
+    if (this.items.length === 0) return;
+    this.selectedIndex = Math.max(0, Math.min(this.items.length - 1, this.selectedIndex + delta));
+    this.refresh();
+  }
+
+  public editSelected(): void {
+    if (this.items.length === 0 || !this.options?.onEdit) return;
+    this.options.onEdit(this.selectedIndex);
+  }
+
+  public toggleSelected(): void {
+    if (this.items.length === 0 || !this.options?.onToggle) return;
+    this.options.onToggle(this.selectedIndex);
+    this.refresh();
+  }
+
+  public deleteSelected(): void {
+    if (this.items.length === 0 || !this.options?.onDelete) return;
+    this.options.onDelete(this.selectedIndex);
+    this.refresh();
+  }
+
+  // Move the selected item and keep it selected
+  public moveItem(delta: number): void {
+    if (this.items.length === 0 || !this.options?.onMove) return;
+    if (this.options.onMove(this.selectedIndex, delta)) {
+      this.selectedIndex += delta;
+    }
+    this.refresh();
+  }
+
+  public addItem(): void {
+    this.options?.onAdd?.();
+  }
+
+  public undo(): void {
+    if (!this.options?.onUndo) return;
+    this.options.onUndo();
+    this.refresh();
+  }
+
+  public close(): void {
+    this.stateManager.setState({ mode: AppMode.NORMAL });
+    document.getElementById('network-table')?.focus();
+  }
+}
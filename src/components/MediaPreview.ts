@@ -0,0 +1,186 @@
+import { NetworkRequest, ResourceType } from '../types';
+import { base64ToBytes, isBinaryBody } from '../utils/encoding';
+import { getHeaderValue } from '../utils/headers';
+
+export type MediaKind = 'image' | 'font' | 'audio' | 'video';
+
+const SAMPLE_TEXT = 'The quick brown fox jumps over the lazy dog';
+const SAMPLE_SIZES = [12, 18, 24, 36];
+const GLYPHS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!?&@#$%*()[]{}<>.,;:\'"/\\-+=';
+
+// How the Preview tab can show a response body, or null when it is not media (falls back to JSON)
+export function getMediaKind(request: NetworkRequest, body: unknown): MediaKind | null {
+  if (body === null || body === undefined) return null;
+
+  const mimeType = getBodyMimeType(request, body);
+  if (request.type === ResourceType.IMG || mimeType.startsWith('image/')) {
+    // SVG arrives as text, other images as bytes
+    return isBinaryBody(body) || mimeType === 'image/svg+xml' ? 'image' : null;
+  }
+  if (!isBinaryBody(body)) return null;
+
+  if (request.type === ResourceType.FONT || mimeType.startsWith('font/') || mimeType.includes('font')) return 'font';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (request.type === ResourceType.MEDIA || mimeType.startsWith('video/')) return 'video';
+  return null;
+}
+
+// FontFaceSet's add/delete are declared in the DOM.Iterable lib, which this project does not load
+function getFontSet(): { add(font: FontFace): void; delete(font: FontFace): boolean } {
+  return document.fonts as unknown as { add(font: FontFace): void; delete(font: FontFace): boolean };
+}
+
+function getBodyMimeType(request: NetworkRequest, body: unknown): string {
+  if (isBinaryBody(body)) return body.mimeType;
+  return request.mimeType || getHeaderValue(request.responseHeaders, 'content-type')?.split(';')[0] || '';
+}
+
+// Image, font and audio/video previews built from the captured body (no new network request)
+export class MediaPreview {
+  private container: HTMLElement;
+  private objectUrl: string | null = null;
+  private fontFace: FontFace | null = null;
+  private renderCount: number = 0; // Drops async results for a request that is no longer shown
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+  }
+
+  render(request: NetworkRequest, body: unknown, kind: MediaKind): void {
+    this.clear();
+    const renderId = ++this.renderCount;
+
+    const mimeType = getBodyMimeType(request, body);
+    const blob = isBinaryBody(body)
+      ? new Blob([base64ToBytes(body.data)], { type: mimeType })
+      : new Blob([String(body)], { type: mimeType });
+    const details = `${mimeType || 'unknown type'} · ${this.formatSize(blob.size)}`;
+
+    switch (kind) {
+      case 'image':
+        this.renderImage(blob, details);
+        break;
+      case 'font':
+        this.renderFont(blob, details, renderId);
+        break;
+      case 'audio':
+      case 'video':
+        this.renderPlayer(blob, details, kind);
+        break;
+    }
+  }
+
+  // Release the object URL and font registered for the previous preview
+  clear(): void {
+    this.renderCount++;
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+    if (this.fontFace) {
+      getFontSet().delete(this.fontFace);
+      this.fontFace = null;
+    }
+    this.container.innerHTML = '';
+  }
+
+  private renderImage(blob: Blob, details: string): void {
+    const summary = this.createSummary(details);
+    const image = document.createElement('img');
+    image.className = 'media-image';
+
+    image.addEventListener('load', () => {
+      summary.textContent = `${image.naturalWidth} × ${image.naturalHeight} · ${details}`;
+    });
+    image.addEventListener('error', () => {
+      summary.textContent = `Could not decode image · ${details}`;
+    });
+
+    this.objectUrl = URL.createObjectURL(blob);
+    image.src = this.objectUrl;
+    this.container.append(summary, image);
+  }
+
+  private async renderFont(blob: Blob, details: string, renderId: number): Promise<void> {
+    const summary = this.createSummary(`Loading font · ${details}`);
+    this.container.appendChild(summary);
+
+    const family = `vim-network-preview-${renderId}`;
+    const fontFace = new FontFace(family, await blob.arrayBuffer());
+    try {
+      await fontFace.load();
+    } catch {
+      if (renderId === this.renderCount) {
+        summary.textContent = `Could not decode font · ${details}`;
+      }
+      return;
+    }
+
+    // Another request was selected while the font loaded
+    if (renderId !== this.renderCount) return;
+
+    getFontSet().add(fontFace);
+    this.fontFace = fontFace;
+    summary.textContent = details;
+
+    // Use DocumentFragment for batch DOM updates
+    const fragment = document.createDocumentFragment();
+    SAMPLE_SIZES.forEach(size => {
+      const line = document.createElement('div');
+      line.className = 'font-sample';
+      line.style.fontFamily = `"${family}"`;
+      line.style.fontSize = `${size}px`;
+      line.textContent = SAMPLE_TEXT;
+      line.title = `${size}px`;
+      fragment.appendChild(line);
+    });
+
+    const sheet = document.createElement('div');
+    sheet.className = 'font-glyphs';
+    sheet.style.fontFamily = `"${family}"`;
+    Array.from(GLYPHS).forEach(glyph => {
+      const cell = document.createElement('span');
+      cell.textContent = glyph;
+      sheet.appendChild(cell);
+    });
+    fragment.appendChild(sheet);
+
+    this.container.appendChild(fragment);
+  }
+
+  private renderPlayer(blob: Blob, details: string, kind: 'audio' | 'video'): void {
+    const summary = this.createSummary(details);
+    const player = document.createElement(kind);
+    player.className = 'media-player';
+    player.controls = true;
+    player.preload = 'metadata';
+
+    player.addEventListener('loadedmetadata', () => {
+      const duration = isFinite(player.duration) ? `${player.duration.toFixed(1)} s · ` : '';
+      const dimensions = player instanceof HTMLVideoElement && player.videoWidth > 0
+        ? `${player.videoWidth} × ${player.videoHeight} · `
+        : '';
+      summary.textContent = `${dimensions}${duration}${details}`;
+    });
+    player.addEventListener('error', () => {
+      summary.textContent = `Could not play captured body (partial or unsupported) · ${details}`;
+    });
+
+    this.objectUrl = URL.createObjectURL(blob);
+    player.src = this.objectUrl;
+    this.container.append(summary, player);
+  }
+
+  private createSummary(text: string): HTMLElement {
+    const summary = document.createElement('div');
+    summary.className = 'media-summary';
+    summary.textContent = text;
+    return summary;
+  }
+
+  private formatSize(bytes: number): string {
+    if (bytes < 1024) return bytes + ' B';
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  }
+}
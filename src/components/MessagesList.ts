@@ -0,0 +1,356 @@
+import { NetworkRequest, WebSocketFrame, EventSourceMessage } from '../types';
+import { StateManager } from '../core/StateManager';
+import { tryParseJson } from '../utils/safeJson';
+
+// Human-readable names for WebSocket opcodes
+const OPCODE_NAMES: Record<number, string> = {
+  0: 'cont',
+  1: 'text',
+  2: 'binary',
+  8: 'close',
+  9: 'ping',
+  10: 'pong'
+};
+
+const DIRECTION_ICONS: Record<WebSocketFrame['direction'], string> = {
+  sent: '↑',
+  received: '↓',
+  error: '✕'
+};
+
+// Payload of a WebSocket frame or SSE event by index counting dropped messages (used to open it in the Preview tab)
+export function getMessagePayload(request: NetworkRequest, index: number): string | undefined {
+  const position = index - (request.droppedMessages || 0);
+  if (request.webSocketFrames) {
+    return request.webSocketFrames[position]?.payload;
+  }
+  return request.eventSourceMessages?.[position]?.data;
+}
+
+// Lists WebSocket frames or Server-Sent Events, depending on the selected request
+export class MessagesList {
+  private container: HTMLElement;
+  private stateManager: StateManager;
+  private frames: WebSocketFrame[] = [];
+  private events: EventSourceMessage[] = [];
+  private selectedIndex: number = 0;
+  private lastRequestId: string = '';
+  private lastSelectedIndex: number = -1;
+  private lastMessage: WebSocketFrame | EventSourceMessage | undefined = undefined; // Detects new messages even once the per-connection cap is reached
+  private selectionRequestId: string = '';   // Request the selection belongs to (tracked while the tab is hidden too)
+  private droppedMessages: number = 0;       // Its dropped message count when the selection was last adjusted
+
+  constructor(container: HTMLElement, stateManager: StateManager) {
+    this.container = container;
+    this.stateManager = stateManager;
+
+    this.stateManager.subscribe(this.render.bind(this));
+    this.render(this.stateManager.getState());
+  }
+
+  private render(state: any): void {
+    const requests = this.stateManager.getFilteredRequests();
+    const selectedRequest = requests[state.selectedIndex];
+    const messagesSelectedIndex = this.syncSelection(state, selectedRequest);
+
+    // Only render when messages tab is active
+    if (state.previewTab !== 'messages') {
+      // Force a full render next time the tab is shown
+      this.lastRequestId = '';
+      return;
+    }
+
+    if (!selectedRequest) {
+      this.renderEmpty('No request selected');
+      this.frames = [];
+      this.events = [];
+      this.lastRequestId = '';
+      return;
+    }
+
+    // Check if we can skip render (optimization)
+    const messages = selectedRequest.webSocketFrames || selectedRequest.eventSourceMessages;
+    const lastMessage = messages ? messages[messages.length - 1] : undefined;
+    const requestChanged = this.lastRequestId !== selectedRequest.id;
+    const messagesChanged = this.lastMessage !== lastMessage;
+    const selectionChanged = this.lastSelectedIndex !== messagesSelectedIndex;
+
+    if (!requestChanged && !messagesChanged && !selectionChanged) {
+      return; // No changes, skip render
+    }
+
+    this.selectedIndex = messagesSelectedIndex;
+
+    // Rebuild list when request changed or new messages arrived (live updates)
+    if (requestChanged || messagesChanged) {
+      this.frames = selectedRequest.webSocketFrames || [];
+      this.events = selectedRequest.eventSourceMessages || [];
+      const count = this.getMessageCount();
+
+      // Clamp selected index to valid range
+      if (this.selectedIndex >= count && count > 0) {
+        this.selectedIndex = count - 1;
+        this.stateManager.setState({ messagesSelectedIndex: this.selectedIndex });
+      }
+
+      if (selectedRequest.eventSourceMessages) {
+        this.renderEvents(selectedRequest);
+      } else {
+        this.renderFrames(selectedRequest);
+      }
+      this.lastRequestId = selectedRequest.id;
+      this.lastMessage = lastMessage;
+    } else {
+      // Only update selection highlight (faster than full re-render)
+      this.updateSelection();
+    }
+
+    this.lastSelectedIndex = this.selectedIndex;
+  }
+
+  /**
+   * Keep the selection on the same message: start over for another request, and move it up
+   * as the oldest messages are dropped. Returns the selected index to render with (the state
+   * update is batched).
+   */
+  private syncSelection(state: any, request: NetworkRequest | undefined): number {
+    const requestId = request?.id || '';
+    const droppedMessages = request?.droppedMessages || 0;
+
+    if (requestId !== this.selectionRequestId) {
+      this.selectionRequestId = requestId;
+      this.droppedMessages = droppedMessages;
+      if (state.messagesSelectedIndex !== 0 || state.previewMessage) {
+        this.stateManager.setState({ messagesSelectedIndex: 0, previewMessage: null });
+      }
+      return 0;
+    }
+
+    if (droppedMessages !== this.droppedMessages) {
+      const index = Math.max(0, state.messagesSelectedIndex - (droppedMessages - this.droppedMessages));
+      this.droppedMessages = droppedMessages;
+      this.stateManager.setState({ messagesSelectedIndex: index });
+      return index;
+    }
+
+    return state.messagesSelectedIndex;
+  }
+
+  private renderFrames(request: NetworkRequest): void {
+    if (!request.webSocketFrames) {
+      this.renderEmpty('No messages for this request');
+      return;
+    }
+
+    if (this.frames.length === 0) {
+      this.renderEmpty('Waiting for messages...');
+      return;
+    }
+
+    // Use DocumentFragment for batch DOM updates
+    const fragment = document.createDocumentFragment();
+    fragment.appendChild(this.createHeaderRow('message-row', ['', 'Data', 'Opcode', 'Size', 'Time']));
+
+    this.frames.forEach((frame, index) => {
+      fragment.appendChild(this.createFrameRow(frame, index, request.timestamp));
+    });
+
+    // Clear and append in one operation
+    this.container.innerHTML = '';
+    this.container.appendChild(fragment);
+
+    this.scrollToSelected();
+  }
+
+  private renderEvents(request: NetworkRequest): void {
+    if (this.events.length === 0) {
+      this.renderEmpty('Waiting for events...');
+      return;
+    }
+
+    // Use DocumentFragment for batch DOM updates
+    const fragment = document.createDocumentFragment();
+    fragment.appendChild(this.createHeaderRow('event-row', ['Type', 'Id', 'Data', 'Time', 'Gap']));
+
+    this.events.forEach((event, index) => {
+      // Gap since the previous event shows chunk timing for streamed responses
+      const previousTime = index > 0 ? this.events[index - 1].timestamp : request.timestamp;
+      fragment.appendChild(this.createEventRow(event, index, request.timestamp, previousTime));
+    });
+
+    // Clear and append in one operation
+    this.container.innerHTML = '';
+    this.container.appendChild(fragment);
+
+    this.scrollToSelected();
+  }
+
+  private createHeaderRow(rowClass: string, labels: string[]): HTMLElement {
+    const header = document.createElement('div');
+    header.className = `${rowClass} message-header`;
+    labels.forEach(label => {
+      const cell = document.createElement('span');
+      cell.textContent = label;
+      header.appendChild(cell);
+    });
+    return header;
+  }
+
+  private createFrameRow(frame: WebSocketFrame, index: number, startTime: number): HTMLElement {
+    const row = document.createElement('div');
+    row.className = `message-row message-item message-${frame.direction} ${index === this.selectedIndex ? 'selected' : ''}`;
+    row.dataset.index = index.toString();
+
+    const directionSpan = document.createElement('span');
+    directionSpan.className = 'message-direction';
+    directionSpan.textContent = DIRECTION_ICONS[frame.direction];
+
+    const dataSpan = document.createElement('span');
+    dataSpan.className = 'message-data';
+    dataSpan.textContent = frame.opcode === 2 ? `Binary message (${frame.size} B)` : frame.payload;
+    dataSpan.title = frame.payload;
+
+    const opcodeSpan = document.createElement('span');
+    opcodeSpan.className = 'message-opcode';
+    opcodeSpan.textContent = frame.direction === 'error' ? 'error' : (OPCODE_NAMES[frame.opcode] || String(frame.opcode));
+
+    const sizeSpan = document.createElement('span');
+    sizeSpan.className = 'message-size';
+    sizeSpan.textContent = this.formatSize(frame.size);
+
+    const timeSpan = document.createElement('span');
+    timeSpan.className = 'message-time';
+    timeSpan.textContent = this.formatOffset(frame.timestamp - startTime);
+
+    row.append(directionSpan, dataSpan, opcodeSpan, sizeSpan, timeSpan);
+    this.attachClickHandler(row, index);
+
+    return row;
+  }
+
+  private createEventRow(event: EventSourceMessage, index: number, startTime: number, previousTime: number): HTMLElement {
+    const row = document.createElement('div');
+    row.className = `event-row message-item ${index === this.selectedIndex ? 'selected' : ''}`;
+    row.dataset.index = index.toString();
+
+    const typeSpan = document.createElement('span');
+    typeSpan.className = 'event-type';
+    typeSpan.textContent = event.eventName;
+
+    const idSpan = document.createElement('span');
+    idSpan.className = 'event-id';
+    idSpan.textContent = event.eventId || '-';
+
+    const dataSpan = document.createElement('span');
+    dataSpan.className = 'message-data';
+    dataSpan.textContent = event.data;
+    dataSpan.title = event.data;
+
+    const timeSpan = document.createElement('span');
+    timeSpan.className = 'message-time';
+    timeSpan.textContent = this.formatOffset(event.timestamp - startTime);
+
+    const gapSpan = document.createElement('span');
+    gapSpan.className = 'message-time';
+    gapSpan.textContent = this.formatOffset(event.timestamp - previousTime);
+
+    row.append(typeSpan, idSpan, dataSpan, timeSpan, gapSpan);
+    this.attachClickHandler(row, index);
+
+    return row;
+  }
+
+  // Add click handler for selection
+  private attachClickHandler(row: HTMLElement, index: number): void {
+    row.addEventListener('click', () => {
+      this.selectedIndex = index;
+      this.stateManager.setState({ messagesSelectedIndex: index });
+    });
+  }
+
+  private getMessageCount(): number {
+    return this.frames.length || this.events.length;
+  }
+
+  private updateSelection(): void {
+    // Fast selection update without full re-render
+    const items = this.container.querySelectorAll('.message-item');
+    items.forEach((item, index) => {
+      item.classList.toggle('selected', index === this.selectedIndex);
+    });
+
+    this.scrollToSelected();
+  }
+
+  private renderEmpty(message: string): void {
+    this.container.innerHTML = '';
+    const p = document.createElement('p');
+    p.textContent = message;
+    this.container.appendChild(p);
+  }
+
+  private scrollToSelected(): void {
+    requestAnimationFrame(() => {
+      const selectedItem = this.container.querySelector('.message-item.selected');
+      if (selectedItem) {
+        selectedItem.scrollIntoView({ block: 'nearest', behavior: 'auto' });
+      }
+    });
+  }
+
+  private formatSize(bytes: number): string {
+    if (bytes < 1024) return bytes + ' B';
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  }
+
+  // Time since the connection was opened
+  private formatOffset(ms: number): string {
+    if (ms < 0) return '-';
+    if (ms < 1000) return `+${Math.round(ms)} ms`;
+    return `+${(ms / 1000).toFixed(3)} s`;
+  }
+
+  // Public methods for keyboard navigation
+  public moveSelection(delta: number): void {
+    const count = this.getMessageCount();
+    if (count === 0) return;
+
+    this.selectedIndex = Math.max(0, Math.min(count - 1, this.selectedIndex + delta));
+    this.stateManager.setState({ messagesSelectedIndex: this.selectedIndex });
+  }
+
+  public navigateTo(position: 'first' | 'last'): void {
+    const count = this.getMessageCount();
+    if (count === 0) return;
+
+    this.selectedIndex = position === 'first' ? 0 : count - 1;
+    this.stateManager.setState({ messagesSelectedIndex: this.selectedIndex });
+  }
+
+  // Frame payload or event data of the selected message
+  public getSelectedPayload(): string | null {
+    if (this.frames.length > 0) {
+      return this.frames[this.selectedIndex]?.payload ?? null;
+    }
+    return this.events[this.selectedIndex]?.data ?? null;
+  }
+
+  // Show selected message in the Preview tab's JsonViewer (returns false if not JSON)
+  public openSelectedMessage(): boolean {
+    const frame = this.frames[this.selectedIndex];
+    if (frame && frame.opcode !== 1) return false; // Binary/control frames are never JSON
+
+    const payload = this.getSelectedPayload();
+    if (payload === null) return false;
+
+    const data = tryParseJson(payload);
+    if (data === undefined || data === null || typeof data !== 'object') return false;
+
+    this.stateManager.setState({
+      previewMessage: { requestId: this.lastRequestId, index: this.droppedMessages + this.selectedIndex },
+      jsonSelectedIndex: 0
+    });
+    return true;
+  }
+}
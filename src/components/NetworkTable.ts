@@ -1,5 +1,14 @@
-import { NetworkRequest, RequestMethod, ResourceType } from '../types';
+import { NetworkRequest, RequestMethod, ResourceType, AppState, PageTimings, ColumnId, RequestSort } from '../types';
 import { StateManager } from '../core/StateManager';
+import { getTimingSegments } from '../utils/timing';
+import { SecurityIndicator, getSecurityIndicator } from '../utils/security';
+import { COLUMNS, ColumnContext } from '../utils/columns';
+
+const SECURITY_TITLES: Record<SecurityIndicator, string> = {
+  secure: 'Secure connection',
+  insecure: 'Insecure connection or certificate problem (see Security tab)',
+  mixed: 'Mixed content: HTTP request from an HTTPS page'
+};
 
 export class NetworkTable {
   private container: HTMLElement;
@@ -19,6 +28,16 @@ export class NetworkTable {
   
   // RAF batching to prevent layout thrashing
   private rafId: number | null = null;
+  
+  // Waterfall scale shared by all rows: session start and total span (ms)
+  private waterfallStart: number = 0;
+  private waterfallSpan: number = 1;
+  private pageTimings: PageTimings = { domContentLoaded: null, load: null };
+  
+  // Visible columns, in order (cells are created per column)
+  private columns: ColumnId[] = [];
+  private sort: RequestSort | null = null;
+  private columnContext: ColumnContext = { sessionStart: 0 };
 
   constructor(container: HTMLElement, stateManager: StateManager) {
     this.container = container;
@@ -131,11 +150,25 @@ export class NetworkTable {
     const requestsChanged = this.lastRenderedRequests !== requests;
     const selectionChanged = this.lastSelectedIndex !== state.selectedIndex;
     const scrollChanged = this.scrollTop !== this.lastScrollTop;
+    const pageTimingsChanged = this.pageTimings !== state.pageTimings;
+    const columnsChanged = this.columns !== state.columns;
+
+    if (columnsChanged) {
+      this.applyColumns(state.columns, tableBody);
+    }
+    if (columnsChanged || this.sort !== state.sort) {
+      this.renderHeader(state.columns, state.sort);
+    }
 
-    if (!requestsChanged && !selectionChanged && !scrollChanged) {
+    if (!requestsChanged && !selectionChanged && !scrollChanged && !pageTimingsChanged && !columnsChanged) {
       return; // No changes, skip render
     }
 
+    // Rescale the waterfall only when requests or page markers changed (O(n), not per scroll)
+    if (requestsChanged || pageTimingsChanged) {
+      this.updateWaterfallScale(state);
+    }
+
     // Store for next comparison
     this.lastRenderedRequests = requests;
     this.lastSelectedIndex = state.selectedIndex;
@@ -277,26 +310,16 @@ export class NetworkTable {
 
   private createRow(request: NetworkRequest, index: number, isSelected: boolean): HTMLElement {
     const row = document.createElement('div');
-    row.className = `table-row ${isSelected ? 'selected' : ''}`;
+    row.className = `table-row ${isSelected ? 'selected' : ''} ${request.paused ? 'paused' : ''} ${request.isMocked ? 'mocked' : ''} ${request.replayOf ? 'replay' : ''} ${request.isSeparator ? 'separator' : ''} ${request.blockedReason ? 'blocked' : ''}`;
     row.dataset.index = index.toString();
 
-    // Create cells using array for faster manipulation
-    const cells = [
-      { className: 'col-name', content: request.name, title: request.url },
-      { className: `col-status status-${Math.floor(request.status / 100)}00`, content: request.status > 0 ? request.status.toString() : 'Pending', title: undefined },
-      { className: 'col-method', content: request.method, title: undefined },
-      { className: 'col-type', content: request.type, title: undefined },
-      { className: 'col-size', content: this.formatSize(request.size), title: undefined }
-    ];
-
     // Use fragment for batch insertion
     const fragment = document.createDocumentFragment();
-    cells.forEach(cell => {
-      const div = document.createElement('div');
-      div.className = cell.className;
-      div.textContent = cell.content;
-      if (cell.title) div.title = cell.title;
-      fragment.appendChild(div);
+    this.columns.forEach(column => {
+      const cell = document.createElement('div');
+      cell.className = `col-${column}`;
+      this.updateCell(cell, column, request);
+      fragment.appendChild(cell);
     });
     
     row.appendChild(fragment);
@@ -304,48 +327,167 @@ export class NetworkTable {
   }
 
   private updateRow(row: HTMLElement, request: NetworkRequest, index: number, isSelected: boolean): void {
-    // Only update changed properties (micro-optimization)
+    // Update only what changed (DOM recycling)
     row.dataset.index = index.toString();
     row.classList.toggle('selected', isSelected);
+    row.classList.toggle('paused', !!request.paused);
+    row.classList.toggle('mocked', !!request.isMocked);
+    row.classList.toggle('replay', !!request.replayOf);
+    row.classList.toggle('separator', !!request.isSeparator);
+    row.classList.toggle('blocked', !!request.blockedReason);
     
-    // Cache child elements
     const cells = row.children;
-    
-    // Update only if content changed
-    const nameCell = cells[0] as HTMLElement;
-    if (nameCell.textContent !== request.name) {
-      nameCell.textContent = request.name;
-      nameCell.title = request.url;
+    this.columns.forEach((column, i) => this.updateCell(cells[i] as HTMLElement, column, request));
+  }
+
+  // Update only if content changed; Name, Status and Waterfall also carry markers and bars
+  private updateCell(cell: HTMLElement, column: ColumnId, request: NetworkRequest): void {
+    if (column === 'waterfall') {
+      this.renderWaterfall(cell, request);
+      return;
     }
-    
-    const statusCell = cells[1] as HTMLElement;
-    const statusText = request.status > 0 ? request.status.toString() : 'Pending';
-    if (statusCell.textContent !== statusText) {
-      statusCell.textContent = statusText;
-      statusCell.className = `col-status status-${Math.floor(request.status / 100)}00`;
+
+    const definition = COLUMNS[column];
+    const text = definition.getText(request, this.columnContext);
+    if (cell.textContent !== text) {
+      cell.textContent = text;
+      if (definition.getTitle) {
+        cell.title = definition.getTitle(request) || '';
+      }
+      if (column === 'status') {
+        cell.className = this.getStatusClass(request);
+      }
     }
-    
-    const methodCell = cells[2] as HTMLElement;
-    if (methodCell.textContent !== request.method) {
-      methodCell.textContent = request.method;
+
+    if (column === 'name') {
+      this.renderTreeIndent(cell, request);
+    } else if (column === 'status') {
+      this.renderSecurityIndicator(cell, request);
+    }
+  }
+
+  // Rebuild the grid for a new column selection; recycled rows have the old cells
+  private applyColumns(columns: ColumnId[], tableBody: HTMLElement): void {
+    this.columns = columns;
+    this.container.style.setProperty('--table-columns', columns.map(column => COLUMNS[column].width).join(' '));
+
+    tableBody.innerHTML = '';
+    this.activeRows = [];
+  }
+
+  // Column labels, with an arrow on the column the list is sorted by
+  private renderHeader(columns: ColumnId[], sort: RequestSort | null): void {
+    this.sort = sort;
+    const header = this.container.querySelector('.table-header') as HTMLElement | null;
+    if (!header) return;
+
+    header.innerHTML = '';
+    columns.forEach(column => {
+      const cell = document.createElement('div');
+      cell.className = `col-${column}`;
+      cell.textContent = COLUMNS[column].label;
+      if (sort?.column === column) {
+        cell.classList.add('sorted');
+        cell.textContent += sort.direction === 'asc' ? ' ▲' : ' ▼';
+      }
+      header.appendChild(cell);
+    });
+  }
+
+  // Tree view: indent by depth and mark branches as expanded/collapsed (styled in CSS)
+  private renderTreeIndent(nameCell: HTMLElement, request: NetworkRequest): void {
+    const node = this.stateManager.getTreeNode(request.id);
+    if (!node) {
+      delete nameCell.dataset.tree;
+      nameCell.style.paddingLeft = '';
+      return;
+    }
+
+    const collapsed = this.stateManager.getState().collapsedTreeNodes.has(request.id);
+    nameCell.dataset.tree = node.hasChildren ? (collapsed ? 'collapsed' : 'expanded') : 'leaf';
+    nameCell.style.paddingLeft = `${node.depth * 14}px`;
+  }
+
+  // Lock for secure responses, warning for insecure or mixed content (styled in CSS)
+  private renderSecurityIndicator(statusCell: HTMLElement, request: NetworkRequest): void {
+    const indicator = getSecurityIndicator(request);
+    if (statusCell.dataset.security === (indicator || undefined)) return;
+
+    if (indicator) {
+      statusCell.dataset.security = indicator;
+    } else {
+      delete statusCell.dataset.security;
     }
+    statusCell.title = indicator ? SECURITY_TITLES[indicator] : '';
+  }
+
+  // Compute the time range covered by all requests and page markers
+  private updateWaterfallScale(state: AppState): void {
+    let start = Infinity;
+    let end = 0;
+    
+    state.requests.forEach(request => {
+      if (!request.timestamp || request.isSeparator) return; // Sockets before their handshake have no start time yet
+      start = Math.min(start, request.timestamp);
+      end = Math.max(end, request.timestamp + request.duration);
+    });
     
-    const typeCell = cells[3] as HTMLElement;
-    if (typeCell.textContent !== request.type) {
-      typeCell.textContent = request.type;
+    const { domContentLoaded, load } = state.pageTimings;
+    if (domContentLoaded !== null) end = Math.max(end, domContentLoaded);
+    if (load !== null) end = Math.max(end, load);
+    
+    this.waterfallStart = start === Infinity ? 0 : start;
+    this.waterfallSpan = Math.max(end - this.waterfallStart, 1);
+    this.pageTimings = state.pageTimings;
+    this.columnContext = { sessionStart: this.waterfallStart };
+  }
+
+  // Draw phase segments and DOMContentLoaded/load markers into a row's waterfall cell
+  private renderWaterfall(cell: HTMLElement, request: NetworkRequest): void {
+    const { domContentLoaded, load } = this.pageTimings;
+    
+    // Skip rebuilding when nothing affecting this cell changed (rows are recycled on scroll)
+    const signature = `${request.timestamp}|${request.duration}|${this.waterfallStart}|${this.waterfallSpan}|${domContentLoaded}|${load}`;
+    if (cell.dataset.signature === signature) return;
+    cell.dataset.signature = signature;
+    
+    let html = '';
+    
+    if (request.timestamp) {
+      const offset = request.timestamp - this.waterfallStart;
+      
+      if (request.timing) {
+        getTimingSegments(request.timing).forEach(segment => {
+          html += this.createWaterfallBar(`timing-${segment.phase}`, offset + segment.start, segment.duration);
+        });
+      } else {
+        html += this.createWaterfallBar('waterfall-bar', offset, request.duration);
+      }
+      
+      cell.title = `Start: +${Math.round(offset)} ms, Duration: ${Math.round(request.duration)} ms`;
     }
     
-    const sizeCell = cells[4] as HTMLElement;
-    const sizeText = this.formatSize(request.size);
-    if (sizeCell.textContent !== sizeText) {
-      sizeCell.textContent = sizeText;
+    if (domContentLoaded !== null) {
+      html += `<span class="waterfall-marker waterfall-dcl" style="left: ${this.toPercent(domContentLoaded - this.waterfallStart)}%"></span>`;
+    }
+    if (load !== null) {
+      html += `<span class="waterfall-marker waterfall-load" style="left: ${this.toPercent(load - this.waterfallStart)}%"></span>`;
     }
+    
+    cell.innerHTML = html;
+  }
+
+  private getStatusClass(request: NetworkRequest): string {
+    if (request.paused) return 'col-status status-paused';
+    if (request.blockedReason) return 'col-status status-blocked';
+    return `col-status status-${Math.floor(request.status / 100)}00`;
+  }
+
+  private createWaterfallBar(className: string, start: number, duration: number): string {
+    return `<span class="waterfall-segment ${className}" style="left: ${this.toPercent(start)}%; width: ${this.toPercent(duration)}%"></span>`;
   }
 
-  private formatSize(bytes: number): string {
-    if (bytes === 0) return '-';
-    if (bytes < 1024) return bytes + ' B';
-    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
-    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  private toPercent(ms: number): string {
+    return (ms / this.waterfallSpan * 100).toFixed(3);
   }
 }
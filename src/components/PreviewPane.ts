@@ -1,12 +1,17 @@
-import { NetworkRequest, AppMode, InspectFocus } from '../types';
+import { NetworkRequest, AppMode, InspectFocus, PreviewTab } from '../types';
 import { StateManager } from '../core/StateManager';
 import { JsonViewer } from './JsonViewer';
-import { safeStringify } from '../utils/safeJson';
+import { HexDumpView } from './HexDumpView';
+import { MediaPreview, getMediaKind } from './MediaPreview';
+import { getMessagePayload } from './MessagesList';
+import { safeStringify, tryParseJson } from '../utils/safeJson';
+import { isBinaryBody } from '../utils/encoding';
 
-// Extend window to include jsonViewer
+// Extend window to include jsonViewer and hexDumpView
 declare global {
   interface Window {
     jsonViewer?: JsonViewer;
+    hexDumpView?: HexDumpView;
   }
 }
 
@@ -14,10 +19,13 @@ export class PreviewPane {
   private container: HTMLElement;
   private stateManager: StateManager;
   private jsonViewer: JsonViewer | null = null;
+  private hexDumpView: HexDumpView | null = null;
+  private mediaPreview: MediaPreview | null = null;
   private lastRequestId: string = '';
   private lastPreviewTab: string = '';
   private lastMode: AppMode = AppMode.NORMAL;
   private lastInspectFocus: InspectFocus = InspectFocus.HEADERS;
+  private lastPreviewMessage: { requestId: string; index: number } | null = null;
 
   constructor(container: HTMLElement, stateManager: StateManager) {
     this.container = container;
@@ -25,6 +33,8 @@ export class PreviewPane {
     
     this.setupTabs();
     this.initJsonViewer();
+    this.initHexDumpView();
+    this.initMediaPreview();
     this.stateManager.subscribe(this.render.bind(this));
     this.render(this.stateManager.getState());
   }
@@ -38,12 +48,28 @@ export class PreviewPane {
     }
   }
 
+  private initHexDumpView(): void {
+    const responseBodyContainer = this.container.querySelector('#response-body') as HTMLElement;
+    if (responseBodyContainer) {
+      this.hexDumpView = new HexDumpView(responseBodyContainer, this.stateManager);
+      // Expose globally for keyboard handler
+      window.hexDumpView = this.hexDumpView;
+    }
+  }
+
+  private initMediaPreview(): void {
+    const mediaPreviewContainer = this.container.querySelector('#media-preview') as HTMLElement;
+    if (mediaPreviewContainer) {
+      this.mediaPreview = new MediaPreview(mediaPreviewContainer);
+    }
+  }
+
   private setupTabs(): void {
     const tabs = this.container.querySelectorAll('.tab-button');
     tabs.forEach(tab => {
       tab.addEventListener('click', (e) => {
         const target = e.target as HTMLElement;
-        const tabName = target.dataset.tab as 'headers' | 'response' | 'preview';
+        const tabName = target.dataset.tab as PreviewTab;
         this.stateManager.setState({ previewTab: tabName });
       });
     });
@@ -64,6 +90,7 @@ export class PreviewPane {
     const tabChanged = this.lastPreviewTab !== state.previewTab;
     const modeChanged = this.lastMode !== state.mode;
     const focusChanged = this.lastInspectFocus !== state.inspectFocus;
+    const previewMessageChanged = this.lastPreviewMessage !== state.previewMessage;
 
     // Update tabs only if changed
     if (tabChanged) {
@@ -79,7 +106,8 @@ export class PreviewPane {
     }
 
     // Only re-render content if request changed or tab changed
-    if (requestChanged || tabChanged) {
+    // (or a different WebSocket frame was opened in the Preview tab)
+    if (requestChanged || tabChanged || (previewMessageChanged && state.previewTab === 'preview')) {
       switch (state.previewTab) {
         case 'headers':
           this.renderHeaders(selectedRequest);
@@ -93,6 +121,7 @@ export class PreviewPane {
       }
       
       this.lastRequestId = selectedRequest.id;
+      this.lastPreviewMessage = state.previewMessage;
     }
   }
 
@@ -121,7 +150,12 @@ export class PreviewPane {
         const focusMap = {
           [InspectFocus.HEADERS]: 'headers',
           [InspectFocus.RESPONSE]: 'response',
-          [InspectFocus.PREVIEW]: 'preview'
+          [InspectFocus.PREVIEW]: 'preview',
+          [InspectFocus.MESSAGES]: 'messages',
+          [InspectFocus.TIMING]: 'timing',
+          [InspectFocus.COOKIES]: 'cookies',
+          [InspectFocus.INITIATOR]: 'initiator',
+          [InspectFocus.SECURITY]: 'security'
         };
         
         panel.classList.toggle('focused', focusMap[focus] === panelName);
@@ -161,13 +195,10 @@ export class PreviewPane {
     if (responseBody) {
       // Check if body is already loaded
       if (request.responseBody !== undefined) {
-        if (typeof request.responseBody === 'object') {
-          responseBody.textContent = safeStringify(request.responseBody, 2);
-        } else {
-          responseBody.textContent = String(request.responseBody) || 'No response body';
-        }
+        this.showResponseBody(responseBody as HTMLElement, request.responseBody);
       } else {
         // Show loading state
+        this.hexDumpView?.clear();
         responseBody.textContent = 'Loading response body...';
         
         // Lazy load the response body
@@ -180,11 +211,7 @@ export class PreviewPane {
             request.responseBody = body;
             
             // Re-render with loaded body
-            if (typeof body === 'object') {
-              responseBody.textContent = safeStringify(body, 2);
-            } else {
-              responseBody.textContent = String(body) || 'No response body';
-            }
+            this.showResponseBody(responseBody as HTMLElement, body);
           }
         } catch {
           responseBody.textContent = 'Failed to load response body';
@@ -193,6 +220,21 @@ export class PreviewPane {
     }
   }
 
+  // Binary bodies get a hex dump, everything else is shown as text
+  private showResponseBody(element: HTMLElement, body: unknown): void {
+    if (isBinaryBody(body) && this.hexDumpView) {
+      this.hexDumpView.render(body);
+      return;
+    }
+
+    this.hexDumpView?.clear();
+    if (typeof body === 'object') {
+      element.textContent = safeStringify(body, 2);
+    } else {
+      element.textContent = String(body) || 'No response body';
+    }
+  }
+
   private async renderPreview(request: NetworkRequest): Promise<void> {
     const jsonViewerContainer = this.container.querySelector('#json-viewer');
     
@@ -200,15 +242,26 @@ export class PreviewPane {
     
     // Reset json selection when switching requests
     this.stateManager.setState({ jsonSelectedIndex: 0 });
+    this.mediaPreview?.clear();
     
-    // Check if body is already loaded
-    if (request.responseBody !== undefined) {
-      if (typeof request.responseBody === 'object' && request.responseBody !== null) {
-        // Render interactive JSON tree using JsonViewer component
-        this.jsonViewer.render(request.responseBody);
+    // A frame/event opened from the Messages tab takes precedence over the response body
+    const previewMessage = this.stateManager.getState().previewMessage;
+    if (previewMessage && previewMessage.requestId === request.id) {
+      const payload = getMessagePayload(request, previewMessage.index);
+      const data = payload !== undefined ? tryParseJson(payload) : undefined;
+      if (typeof data === 'object' && data !== null) {
+        this.jsonViewer.render(data);
+      } else if (payload === undefined) {
+        jsonViewerContainer.textContent = 'Message no longer kept (oldest messages are dropped)';
       } else {
-        jsonViewerContainer.textContent = 'Not a JSON response';
+        jsonViewerContainer.textContent = 'Not a JSON message';
       }
+      return;
+    }
+    
+    // Check if body is already loaded
+    if (request.responseBody !== undefined) {
+      this.showPreviewBody(jsonViewerContainer as HTMLElement, request, request.responseBody);
     } else {
       // Show loading state
       jsonViewerContainer.textContent = 'Loading preview...';
@@ -223,11 +276,7 @@ export class PreviewPane {
           request.responseBody = body;
           
           // Re-render with loaded body
-          if (typeof body === 'object' && body !== null) {
-            this.jsonViewer.render(body);
-          } else {
-            jsonViewerContainer.textContent = 'Not a JSON response';
-          }
+          this.showPreviewBody(jsonViewerContainer as HTMLElement, request, body);
         }
       } catch {
         jsonViewerContainer.textContent = 'Failed to load preview';
@@ -235,6 +284,22 @@ export class PreviewPane {
     }
   }
 
+  // Images, fonts and media get a rendered preview, JSON an interactive tree
+  private showPreviewBody(element: HTMLElement, request: NetworkRequest, body: unknown): void {
+    const mediaKind = getMediaKind(request, body);
+    if (mediaKind && this.mediaPreview) {
+      element.textContent = '';
+      this.mediaPreview.render(request, body, mediaKind);
+    } else if (isBinaryBody(body)) {
+      element.textContent = `Binary response (${body.mimeType}) - see the Response tab`;
+    } else if (typeof body === 'object' && body !== null) {
+      // Render interactive JSON tree using JsonViewer component
+      this.jsonViewer?.render(body);
+    } else {
+      element.textContent = 'Not a JSON response';
+    }
+  }
+
   private renderEmpty(): void {
     const requestHeaders = this.container.querySelector('#request-headers');
     const responseHeaders = this.container.querySelector('#response-headers');
@@ -248,11 +313,13 @@ export class PreviewPane {
       responseHeaders.innerHTML = '';
     }
     if (responseBody) {
+      this.hexDumpView?.clear();
       responseBody.textContent = '';
     }
     if (jsonViewer) {
       jsonViewer.textContent = '';
     }
+    this.mediaPreview?.clear();
   }
 }
 
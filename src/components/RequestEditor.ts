@@ -0,0 +1,123 @@
+import { StateManager } from '../core/StateManager';
+import { AppMode } from '../types';
+
+export interface EditorField {
+  name: string;                            // Key in the submitted values
+  label: string;
+  value: string;
+  multiline?: boolean;                     // Textarea instead of a single-line input
+  readOnly?: boolean;
+}
+
+export interface EditorOptions {
+  title: string;
+  fields: EditorField[];
+  submitLabel: string;                     // e.g. 'continue', 'send'
+  onSubmit: (values: Record<string, string>) => boolean | void; // Return false to keep the editor open
+  onAbort?: () => void;                    // Omit when there is nothing to abort
+}
+
+// Keyboard-driven form for editing a request (Ctrl+Enter submit, Ctrl+Shift+Enter abort, Escape close)
+export class RequestEditor {
+  private container: HTMLElement;
+  private stateManager: StateManager;
+  private options: EditorOptions | null = null;
+
+  constructor(container: HTMLElement, stateManager: StateManager) {
+    this.container = container;
+    this.stateManager = stateManager;
+
+    this.stateManager.subscribe(this.render.bind(this));
+  }
+
+  private render(state: any): void {
+    // Close when another mode takes over (e.g. clicking a tab)
+    if (state.mode !== AppMode.EDIT && this.options) {
+      this.options = null;
+      this.container.classList.add('hidden');
+      this.container.innerHTML = '';
+    }
+  }
+
+  public open(options: EditorOptions): void {
+    this.options = options;
+    this.renderForm(options);
+    this.container.classList.remove('hidden');
+    this.stateManager.setState({ mode: AppMode.EDIT });
+
+    // Focus the first editable field so typing works immediately
+    const firstField = this.container.querySelector('input:not([readonly]), textarea:not([readonly])') as HTMLElement | null;
+    firstField?.focus();
+  }
+
+  private renderForm(options: EditorOptions): void {
+    // Use DocumentFragment for batch DOM updates
+    const fragment = document.createDocumentFragment();
+
+    const title = document.createElement('div');
+    title.className = 'editor-title';
+    title.textContent = options.title;
+    fragment.appendChild(title);
+
+    options.fields.forEach(field => {
+      const label = document.createElement('label');
+      label.className = 'editor-field';
+
+      const labelText = document.createElement('span');
+      labelText.className = 'editor-label';
+      labelText.textContent = field.label;
+
+      const input = field.multiline ? document.createElement('textarea') : document.createElement('input');
+      input.className = 'editor-input';
+      input.name = field.name;
+      input.value = field.value;
+      input.readOnly = !!field.readOnly;
+      input.spellcheck = false;
+      if (input instanceof HTMLTextAreaElement) {
+        input.rows = Math.min(10, Math.max(3, field.value.split('\n').length));
+      }
+
+      label.append(labelText, input);
+      fragment.appendChild(label);
+    });
+
+    const hint = document.createElement('div');
+    hint.className = 'editor-hint';
+    const hints = [`Ctrl+Enter ${options.submitLabel}`];
+    if (options.onAbort) hints.push('Ctrl+Shift+Enter abort');
+    hints.push('Tab next field', 'Esc close');
+    hint.textContent = hints.join(' · ');
+    fragment.appendChild(hint);
+
+    // Clear and append in one operation
+    this.container.innerHTML = '';
+    this.container.appendChild(fragment);
+  }
+
+  private getValues(): Record<string, string> {
+    const values: Record<string, string> = {};
+    this.container.querySelectorAll('.editor-input').forEach(element => {
+      const input = element as HTMLInputElement | HTMLTextAreaElement;
+      values[input.name] = input.value;
+    });
+    return values;
+  }
+
+  // Public methods for keyboard handling
+  public submit(): void {
+    if (!this.options) return;
+    if (this.options.onSubmit(this.getValues()) === false) return;
+    this.close();
+  }
+
+  public abort(): void {
+    if (!this.options?.onAbort) return;
+    this.options.onAbort();
+    this.close();
+  }
+
+  public close(): void {
+    this.stateManager.setState({ mode: AppMode.NORMAL });
+    document.getElementById('network-table')?.focus();
+  }
+}
@@ -0,0 +1,237 @@
+import { NetworkRequest, SecurityDetails } from '../types';
+import { StateManager } from '../core/StateManager';
+import { getCertificateProblems, getRequestHostname, isMixedContent, matchesCertificateName } from '../utils/security';
+import { CopyUtil } from '../utils/copy';
+import { showToast } from '../utils/toast';
+
+// Row in the Security tab
+interface SecurityRow {
+  label: string;
+  value: string;
+  highlight?: 'warning' | 'match';
+}
+
+// TLS connection and certificate of the selected request, one navigable row per field
+export class SecurityView {
+  private container: HTMLElement;
+  private stateManager: StateManager;
+  private rows: SecurityRow[] = [];
+  private selectedIndex: number = 0;
+  private lastRequestId: string = '';
+  private lastSelectedIndex: number = -1;
+  private lastSecurityKey: string = ''; // Security state and block reason arrive after the request
+
+  constructor(container: HTMLElement, stateManager: StateManager) {
+    this.container = container;
+    this.stateManager = stateManager;
+
+    this.stateManager.subscribe(this.render.bind(this));
+    this.render(this.stateManager.getState());
+  }
+
+  private render(state: any): void {
+    // Only render when security tab is active
+    if (state.previewTab !== 'security') {
+      // Force a full render next time the tab is shown
+      this.lastRequestId = '';
+      return;
+    }
+
+    const requests = this.stateManager.getFilteredRequests();
+    const selectedRequest = requests[state.selectedIndex];
+
+    if (!selectedRequest) {
+      this.renderMessage('No request selected');
+      this.rows = [];
+      this.lastRequestId = '';
+      return;
+    }
+
+    // Check if we can skip render (optimization)
+    const requestChanged = this.lastRequestId !== selectedRequest.id ||
+      this.lastSecurityKey !== this.getSecurityKey(selectedRequest);
+    const selectionChanged = this.lastSelectedIndex !== state.securitySelectedIndex;
+
+    if (!requestChanged && !selectionChanged) {
+      return; // No changes, skip render
+    }
+
+    this.selectedIndex = state.securitySelectedIndex;
+
+    if (requestChanged) {
+      this.rows = this.getRows(selectedRequest);
+
+      // Clamp selected index to valid range
+      if (this.selectedIndex >= this.rows.length && this.rows.length > 0) {
+        this.selectedIndex = this.rows.length - 1;
+        this.stateManager.setState({ securitySelectedIndex: this.selectedIndex });
+      }
+
+      this.renderSecurity(selectedRequest);
+      this.lastRequestId = selectedRequest.id;
+      this.lastSecurityKey = this.getSecurityKey(selectedRequest);
+    } else {
+      // Only update selection highlight (faster than full re-render)
+      this.updateSelection();
+    }
+
+    this.lastSelectedIndex = state.securitySelectedIndex;
+  }
+
+  private getSecurityKey(request: NetworkRequest): string {
+    return `${request.securityState}|${request.blockedReason}`;
+  }
+
+  // Problems first, then the connection, then the certificate with one row per SAN
+  private getRows(request: NetworkRequest): SecurityRow[] {
+    const rows: SecurityRow[] = getCertificateProblems(request).map(problem => ({
+      label: 'Problem',
+      value: problem,
+      highlight: 'warning'
+    }));
+
+    if (isMixedContent(request)) {
+      rows.push({
+        label: 'Mixed content',
+        value: request.blockedReason === 'mixed-content' ? 'blocked' : request.mixedContentType || 'blockable',
+        highlight: 'warning'
+      });
+    }
+
+    if (request.securityState) {
+      rows.push({
+        label: 'Security state',
+        value: request.securityState,
+        highlight: request.securityState.startsWith('insecure') ? 'warning' : undefined
+      });
+    }
+
+    const details = request.securityDetails;
+    if (details) {
+      rows.push(...this.getConnectionRows(details), ...this.getCertificateRows(request, details));
+    }
+
+    return rows;
+  }
+
+  private getConnectionRows(details: SecurityDetails): SecurityRow[] {
+    // TLS 1.3 reports only the group; older versions the algorithm and maybe a group
+    const keyExchange = [details.keyExchange, details.keyExchangeGroup].filter(Boolean).join(' with ');
+
+    return [
+      { label: 'Protocol', value: details.protocol },
+      { label: 'Key exchange', value: keyExchange || '-' },
+      { label: 'Cipher', value: details.mac ? `${details.cipher} with ${details.mac}` : details.cipher }
+    ];
+  }
+
+  private getCertificateRows(request: NetworkRequest, details: SecurityDetails): SecurityRow[] {
+    const hostname = getRequestHostname(request);
+
+    return [
+      { label: 'Subject', value: details.subjectName },
+      ...details.sanList.map(name => ({
+        label: 'SAN',
+        value: name,
+        highlight: matchesCertificateName(hostname, name) ? 'match' as const : undefined
+      })),
+      { label: 'Issuer', value: details.issuer },
+      { label: 'Valid from', value: new Date(details.validFrom * 1000).toUTCString() },
+      { label: 'Valid until', value: new Date(details.validTo * 1000).toUTCString() },
+      { label: 'Transparency', value: `${details.certificateTransparencyCompliance} (${details.signedCertificateTimestamps} SCTs)` }
+    ];
+  }
+
+  private renderSecurity(request: NetworkRequest): void {
+    if (this.rows.length === 0) {
+      this.renderMessage(request.status === 0 && !request.blockedReason
+        ? 'No security information (response pending)'
+        : 'No security information (not a secure connection, or served from cache)');
+      return;
+    }
+
+    // Use DocumentFragment for batch DOM updates
+    const fragment = document.createDocumentFragment();
+    this.rows.forEach((row, index) => fragment.appendChild(this.createRow(row, index)));
+
+    // Clear and append in one operation
+    this.container.innerHTML = '';
+    this.container.appendChild(fragment);
+
+    this.scrollToSelected();
+  }
+
+  private createRow(securityRow: SecurityRow, index: number): HTMLElement {
+    const row = document.createElement('div');
+    row.className = `security-row security-item ${securityRow.highlight || ''} ${index === this.selectedIndex ? 'selected' : ''}`;
+    row.dataset.index = index.toString();
+
+    const label = document.createElement('span');
+    label.className = 'security-label';
+    label.textContent = securityRow.label;
+
+    const value = document.createElement('span');
+    value.className = 'security-value';
+    value.textContent = securityRow.value;
+    value.title = securityRow.value;
+
+    row.append(label, value);
+
+    // Add click handler for selection
+    row.addEventListener('click', () => {
+      this.selectedIndex = index;
+      this.stateManager.setState({ securitySelectedIndex: index });
+    });
+
+    return row;
+  }
+
+  private updateSelection(): void {
+    // Fast selection update without full re-render
+    const items = this.container.querySelectorAll('.security-item');
+    items.forEach((item, index) => {
+      item.classList.toggle('selected', index === this.selectedIndex);
+    });
+
+    this.scrollToSelected();
+  }
+
+  private renderMessage(message: string): void {
+    this.container.innerHTML = '';
+    const p = document.createElement('p');
+    p.textContent = message;
+    this.container.appendChild(p);
+  }
+
+  private scrollToSelected(): void {
+    requestAnimationFrame(() => {
+      const selectedItem = this.container.querySelector('.security-item.selected');
+      if (selectedItem) {
+        selectedItem.scrollIntoView({ block: 'nearest', behavior: 'auto' });
+      }
+    });
+  }
+
+  // Public methods for keyboard navigation
+  public moveSelection(delta: number): void {
+    if (this.rows.length === 0) return;
+
+    this.selectedIndex = Math.max(0, Math.min(this.rows.length - 1, this.selectedIndex + delta));
+    this.stateManager.setState({ securitySelectedIndex: this.selectedIndex });
+  }
+
+  public navigateTo(position: 'first' | 'last'): void {
+    if (this.rows.length === 0) return;
+
+    this.selectedIndex = position === 'first' ? 0 : this.rows.length - 1;
+    this.stateManager.setState({ securitySelectedIndex: this.selectedIndex });
+  }
+
+  public copySelectedValue(): void {
+    const row = this.rows[this.selectedIndex];
+    if (row) {
+      CopyUtil.toClipboard(row.value);
+      showToast(`Copied ${row.label}`);
+    }
+  }
+}
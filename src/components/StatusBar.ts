@@ -6,6 +6,11 @@ export class StatusBar {
   private requestsEl: HTMLElement;
   private transferredEl: HTMLElement;
   private searchEl: HTMLElement;
+  private preserveEl: HTMLElement;
+  private throttleEl: HTMLElement;
+  private cacheEl: HTMLElement;
+  private targetEl: HTMLElement;
+  private insecureEl: HTMLElement;
 
   constructor(stateManager: StateManager) {
     this.stateManager = stateManager;
@@ -13,6 +18,11 @@ export class StatusBar {
     this.requestsEl = document.getElementById('status-requests')!;
     this.transferredEl = document.getElementById('status-transferred')!;
     this.searchEl = document.getElementById('status-search')!;
+    this.preserveEl = document.getElementById('status-preserve')!;
+    this.throttleEl = document.getElementById('status-throttle')!;
+    this.cacheEl = document.getElementById('status-cache')!;
+    this.targetEl = document.getElementById('status-target')!;
+    this.insecureEl = document.getElementById('status-insecure')!;
     
     // Subscribe to state changes
     this.stateManager.subscribe(this.update.bind(this));
@@ -22,8 +32,9 @@ export class StatusBar {
   }
 
   private update(state: any): void {
-    const filteredRequests = this.stateManager.getFilteredRequests();
-    const allRequests = state.requests; // Use all requests for stats
+    // Navigation separators are not requests
+    const filteredRequests = this.stateManager.getFilteredRequests().filter((req: NetworkRequest) => !req.isSeparator);
+    const allRequests = state.requests.filter((req: NetworkRequest) => !req.isSeparator); // Use all requests for stats
     
     // Calculate stats from all requests (not filtered)
     const stats = this.calculateStats(allRequests);
@@ -42,9 +53,25 @@ export class StatusBar {
     
     this.transferredEl.textContent = `${this.formatSize(stats.transferred)} transferred`;
     
+    // Show/hide preserve log indicator
+    this.preserveEl.classList.toggle('hidden', !state.preserveLog);
+    this.cacheEl.classList.toggle('hidden', !state.cacheDisabled);
+    
+    // Show active throttling profile as a badge
+    this.throttleEl.textContent = state.throttleProfile ? `Throttling: ${state.throttleProfile}` : '';
+    this.throttleEl.classList.toggle('hidden', !state.throttleProfile);
+    
+    // Show the :target filter, which is not visible in the filter bar
+    this.targetEl.textContent = state.targetFilter ? `Target: ${state.targetFilter.replace('_', ' ')}` : '';
+    this.targetEl.classList.toggle('hidden', !state.targetFilter);
+
+    this.insecureEl.classList.toggle('hidden', !state.insecureOnly);
+    
     // Show/hide search indicator
     if (state.searchQuery && state.searchQuery.length > 0) {
-      this.searchEl.textContent = `Search: "${state.searchQuery}"`;
+      // Terms like status:abc are ignored by the search; say so instead of silently matching everything
+      const errors = this.stateManager.getFilterQuery().errors;
+      this.searchEl.textContent = `Search: "${state.searchQuery}"` + (errors.length > 0 ? ` (ignored: ${errors.join(' ')})` : '');
       this.searchEl.classList.remove('hidden');
     } else {
       this.searchEl.classList.add('hidden');
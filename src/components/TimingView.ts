@@ -0,0 +1,140 @@
+import { NetworkRequest, RequestTiming } from '../types';
+import { StateManager } from '../core/StateManager';
+import { getTimingSegments } from '../utils/timing';
+
+const PHASE_LABELS: Record<keyof RequestTiming, string> = {
+  blocked: 'Queueing / Stalled',
+  dns: 'DNS Lookup',
+  connect: 'Initial Connection',
+  ssl: 'SSL',
+  send: 'Request Sent',
+  wait: 'Waiting (TTFB)',
+  receive: 'Content Download'
+};
+
+export class TimingView {
+  private container: HTMLElement;
+  private stateManager: StateManager;
+  private lastRequestId: string = '';
+  private lastDuration: number = -1;
+
+  constructor(container: HTMLElement, stateManager: StateManager) {
+    this.container = container;
+    this.stateManager = stateManager;
+
+    this.stateManager.subscribe(this.render.bind(this));
+    this.render(this.stateManager.getState());
+  }
+
+  private render(state: any): void {
+    // Only render when timing tab is active
+    if (state.previewTab !== 'timing') {
+      // Force a full render next time the tab is shown
+      this.lastRequestId = '';
+      return;
+    }
+
+    const requests = this.stateManager.getFilteredRequests();
+    const selectedRequest = requests[state.selectedIndex];
+
+    if (!selectedRequest) {
+      this.renderMessage('No request selected');
+      this.lastRequestId = '';
+      return;
+    }
+
+    // Re-render when the request changes or finishes loading (duration updates)
+    if (this.lastRequestId === selectedRequest.id && this.lastDuration === selectedRequest.duration) {
+      return;
+    }
+
+    this.lastRequestId = selectedRequest.id;
+    this.lastDuration = selectedRequest.duration;
+
+    if (!selectedRequest.timing) {
+      this.renderMessage('No timing information (request pending or served from cache)');
+      return;
+    }
+
+    this.renderTiming(selectedRequest, selectedRequest.timing);
+  }
+
+  private renderTiming(request: NetworkRequest, timing: RequestTiming): void {
+    // Use DocumentFragment for batch DOM updates
+    const fragment = document.createDocumentFragment();
+    const total = Math.max(request.duration, 1);
+
+    getTimingSegments(timing).forEach(({ phase, start, duration }) => {
+      fragment.appendChild(this.createPhaseRow(phase, PHASE_LABELS[phase], duration, start / total, duration / total));
+    });
+
+    fragment.appendChild(this.createTotalRow(request.duration));
+    fragment.appendChild(this.createSummary(timing));
+
+    // Clear and append in one operation
+    this.container.innerHTML = '';
+    this.container.appendChild(fragment);
+  }
+
+  private createPhaseRow(key: string, label: string, value: number, start: number, width: number): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'timing-row';
+
+    const labelSpan = document.createElement('span');
+    labelSpan.className = 'timing-label';
+    labelSpan.textContent = label;
+
+    const track = document.createElement('span');
+    track.className = 'timing-track';
+    const bar = document.createElement('span');
+    bar.className = `timing-bar timing-${key}`;
+    bar.style.left = `${start * 100}%`;
+    bar.style.width = `${Math.max(width * 100, 0.5)}%`; // Keep tiny phases visible
+    track.appendChild(bar);
+
+    const valueSpan = document.createElement('span');
+    valueSpan.className = 'timing-value';
+    valueSpan.textContent = this.formatMs(value);
+
+    row.append(labelSpan, track, valueSpan);
+    return row;
+  }
+
+  private createTotalRow(duration: number): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'timing-row timing-total';
+
+    const labelSpan = document.createElement('span');
+    labelSpan.className = 'timing-label';
+    labelSpan.textContent = 'Total';
+
+    const valueSpan = document.createElement('span');
+    valueSpan.className = 'timing-value';
+    valueSpan.textContent = this.formatMs(duration);
+
+    row.append(labelSpan, document.createElement('span'), valueSpan);
+    return row;
+  }
+
+  // Split time into server (TTFB) and network phases to answer "server or network?"
+  private createSummary(timing: RequestTiming): HTMLElement {
+    const network = Math.max(0, timing.dns) + Math.max(0, timing.connect) + timing.send + timing.receive;
+
+    const summary = document.createElement('div');
+    summary.className = 'timing-summary';
+    summary.textContent = `Server: ${this.formatMs(timing.wait)} · Network: ${this.formatMs(network)} · Browser queue: ${this.formatMs(timing.blocked)}`;
+    return summary;
+  }
+
+  private renderMessage(message: string): void {
+    this.container.innerHTML = '';
+    const p = document.createElement('p');
+    p.textContent = message;
+    this.container.appendChild(p);
+  }
+
+  private formatMs(ms: number): string {
+    if (ms < 1000) return `${ms.toFixed(2)} ms`;
+    return `${(ms / 1000).toFixed(2)} s`;
+  }
+}
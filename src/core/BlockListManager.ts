@@ -0,0 +1,163 @@
+import { BlockRule } from '../types';
+import { NetworkCapture } from './NetworkCapture';
+import { CommandRegistry } from './CommandRegistry';
+import { RequestEditor } from '../components/RequestEditor';
+import { ListPanel } from '../components/ListPanel';
+import { showToast } from '../utils/toast';
+
+const STORAGE_KEY = 'vim-network-block-rules';
+
+// Block list enforced with Network.setBlockedURLs (wildcard patterns, * matches anything)
+export class BlockListManager {
+  private networkCapture: NetworkCapture;
+  private editor: RequestEditor;
+  private listPanel: ListPanel;
+  private rules: BlockRule[] = [];
+
+  constructor(networkCapture: NetworkCapture, editor: RequestEditor, listPanel: ListPanel, commands: CommandRegistry) {
+    this.networkCapture = networkCapture;
+    this.editor = editor;
+    this.listPanel = listPanel;
+
+    // Blocked URLs are reset on detach
+    this.networkCapture.onAttach(() => this.syncBlockedUrls());
+    this.networkCapture.onTargetAttached((sessionId) => this.syncBlockedUrls(sessionId));
+
+    this.registerCommands(commands);
+    this.loadRulesFromStorage();
+  }
+
+  private registerCommands(commands: CommandRegistry): void {
+    commands.register('block', 'Block requests matching a pattern: :block <pattern>', (args) => {
+      if (!args[0]) {
+        showToast('Usage: :block <pattern>');
+        return;
+      }
+      this.addRule(args[0]);
+    });
+
+    commands.register('blocks', 'List blocked URL patterns', () => this.openRuleList());
+
+    commands.register('unblock', 'Remove a blocked pattern, or all without arguments', (args) => {
+      const before = this.rules.length;
+      this.rules = args[0] ? this.rules.filter(rule => rule.urlPattern !== args[0]) : [];
+      const removed = before - this.rules.length;
+      if (removed > 0) this.saveRules();
+      showToast(removed > 0 ? `Removed ${removed} blocked pattern(s)` : 'No matching blocked patterns');
+    });
+  }
+
+  // Block the exact URL, or every request to its host; toggles off if already blocked
+  public toggleBlock(url: string, wholeDomain: boolean): void {
+    let pattern = url;
+    if (wholeDomain) {
+      try {
+        const parsed = new URL(url);
+        pattern = `*://${parsed.host}/*`;
+      } catch {
+        showToast('Cannot block domain: invalid URL');
+        return;
+      }
+    }
+
+    const index = this.rules.findIndex(rule => rule.urlPattern === pattern);
+    if (index === -1) {
+      this.addRule(pattern);
+    } else {
+      this.rules.splice(index, 1);
+      this.saveRules();
+      showToast(`Unblocked ${pattern}`);
+    }
+  }
+
+  private addRule(urlPattern: string): void {
+    if (this.rules.some(rule => rule.urlPattern === urlPattern)) {
+      showToast(`Already blocked: ${urlPattern}`);
+      return;
+    }
+    this.rules.push({ urlPattern, enabled: true });
+    this.saveRules();
+    showToast(`Blocked ${urlPattern}`);
+  }
+
+  private openRuleList(): void {
+    this.listPanel.open({
+      title: 'Blocked URL patterns',
+      emptyMessage: 'No blocked patterns. Use :block <pattern>, or x / X on a request.',
+      getItems: () => this.rules.map(rule => ({
+        label: rule.urlPattern,
+        enabled: rule.enabled
+      })),
+      onEdit: (index) => this.openRuleEditor(index),
+      onToggle: (index) => {
+        this.rules[index].enabled = !this.rules[index].enabled;
+        this.saveRules();
+      },
+      onDelete: (index) => {
+        this.rules.splice(index, 1);
+        this.saveRules();
+      }
+    });
+  }
+
+  private openRuleEditor(index: number): void {
+    this.editor.open({
+      title: 'Edit blocked pattern (* matches anything)',
+      fields: [
+        { name: 'urlPattern', label: 'URL pattern', value: this.rules[index].urlPattern }
+      ],
+      submitLabel: 'save',
+      onSubmit: (values) => {
+        const urlPattern = values.urlPattern.trim();
+        if (!urlPattern) {
+          showToast('URL pattern is required');
+          return false;
+        }
+        this.rules[index].urlPattern = urlPattern;
+        this.saveRules();
+      }
+    });
+  }
+
+  // Push the enabled patterns to one iframe/worker session, or to every target
+  private async syncBlockedUrls(sessionId?: string): Promise<void> {
+    const urls = this.rules.filter(rule => rule.enabled).map(rule => rule.urlPattern);
+
+    try {
+      if (sessionId) {
+        await this.networkCapture.sendCommand('Network.setBlockedURLs', { urls }, sessionId);
+      } else {
+        await this.networkCapture.sendCommandToAllTargets('Network.setBlockedURLs', { urls });
+      }
+    } catch (error) {
+      console.warn('[BlockListManager] Network.setBlockedURLs failed:', error);
+    }
+  }
+
+  private saveRules(): void {
+    this.saveRulesToStorage();
+    this.syncBlockedUrls();
+  }
+
+  private async loadRulesFromStorage(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEY);
+      const stored = result[STORAGE_KEY] as BlockRule[] | undefined;
+
+      if (stored && Array.isArray(stored)) {
+        this.rules = stored;
+        this.syncBlockedUrls();
+      }
+    } catch (error) {
+      // Silently fail - start with an empty block list
+    }
+  }
+
+  private async saveRulesToStorage(): Promise<void> {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEY]: this.rules });
+    } catch (error) {
+      // Silently fail - block list will be lost on reload
+    }
+  }
+}
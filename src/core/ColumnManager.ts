@@ -0,0 +1,121 @@
+import { ColumnId } from '../types';
+import { StateManager } from './StateManager';
+import { CommandRegistry } from './CommandRegistry';
+import { ListPanel } from '../components/ListPanel';
+import { COLUMNS, DEFAULT_COLUMNS, isColumnId } from '../utils/columns';
+import { showToast } from '../utils/toast';
+
+const STORAGE_KEY = 'vim-network-columns';
+
+// Shows, hides and reorders request table columns (state.columns), persisted per user
+export class ColumnManager {
+  private stateManager: StateManager;
+  private listPanel: ListPanel;
+  private columns: ColumnId[] = DEFAULT_COLUMNS; // Ahead of the batched state while the list is open
+
+  constructor(stateManager: StateManager, listPanel: ListPanel, commands: CommandRegistry) {
+    this.stateManager = stateManager;
+    this.listPanel = listPanel;
+
+    this.registerCommands(commands);
+    this.loadColumnsFromStorage();
+  }
+
+  private registerCommands(commands: CommandRegistry): void {
+    commands.register('columns', 'Choose table columns: :columns [column|reset] (no argument opens the list)', (args) => {
+      const name = args[0];
+      if (!name) {
+        this.openColumnList();
+      } else if (name === 'reset') {
+        this.setColumns(DEFAULT_COLUMNS);
+        showToast('Columns reset');
+      } else if (isColumnId(name)) {
+        this.toggleColumn(name);
+      } else {
+        showToast(`Unknown column: ${name} (${Object.keys(COLUMNS).join(', ')})`);
+      }
+    });
+  }
+
+  // Visible columns in table order, then hidden ones; Space shows/hides, J/K reorder visible ones
+  private openColumnList(): void {
+    this.listPanel.open({
+      title: 'Columns',
+      emptyMessage: '',
+      getItems: () => {
+        const visible = this.columns;
+        return this.getListOrder().map(column => ({
+          label: `${visible.includes(column) ? '✓' : ' '} ${COLUMNS[column].label} (${column})`,
+          enabled: visible.includes(column)
+        }));
+      },
+      onToggle: (index) => this.toggleColumn(this.getListOrder()[index]),
+      onMove: (index, delta) => this.moveColumn(index, delta)
+    });
+  }
+
+  private getListOrder(): ColumnId[] {
+    const visible = this.columns;
+    const hidden = (Object.keys(COLUMNS) as ColumnId[]).filter(column => !visible.includes(column));
+    return [...visible, ...hidden];
+  }
+
+  // Hidden columns come back at the right edge
+  private toggleColumn(column: ColumnId): void {
+    const columns = this.columns;
+    if (!columns.includes(column)) {
+      this.setColumns([...columns, column]);
+      showToast(`Showing ${COLUMNS[column].label} column`);
+    } else if (column === 'name') {
+      showToast('The Name column cannot be hidden');
+    } else {
+      this.setColumns(columns.filter(c => c !== column));
+      showToast(`Hid ${COLUMNS[column].label} column`);
+    }
+  }
+
+  // Swap a visible column with its neighbour (list index = table position for visible columns)
+  private moveColumn(index: number, delta: number): boolean {
+    const columns = [...this.columns];
+    const target = index + delta;
+    if (index >= columns.length) {
+      showToast('Show the column before moving it');
+      return false;
+    }
+    if (target < 0 || target >= columns.length) return false;
+
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    this.setColumns(columns);
+    return true;
+  }
+
+  private setColumns(columns: ColumnId[]): void {
+    this.columns = columns;
+    this.stateManager.setState({ columns });
+    this.saveColumnsToStorage();
+  }
+
+  private async loadColumnsFromStorage(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEY);
+      const stored = result[STORAGE_KEY] as string[] | undefined;
+
+      // Drop columns removed since they were saved; Name is always shown
+      const columns = Array.isArray(stored) ? stored.filter(isColumnId) : [];
+      if (columns.includes('name')) {
+        this.columns = columns;
+        this.stateManager.setState({ columns });
+      }
+    } catch (error) {
+      // Silently fail - use default columns
+    }
+  }
+
+  private async saveColumnsToStorage(): Promise<void> {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEY]: this.columns });
+    } catch (error) {
+      // Silently fail - columns will be reset on reload
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { showToast } from '../utils/toast';
+
+type CommandHandler = (args: string[]) => void | Promise<void>;
+
+interface Command {
+  description: string;
+  handler: CommandHandler;
+}
+
+// Ex-style commands entered in command mode (':break *api*', ':continue', ...)
+export class CommandRegistry {
+  private commands: Map<string, Command> = new Map();
+
+  // Register a command (features register their own commands when constructed)
+  register(name: string, description: string, handler: CommandHandler): void {
+    this.commands.set(name, { description, handler });
+  }
+
+  // Parse and run a command line: the first word is the command, the rest are arguments
+  async execute(input: string): Promise<void> {
+    const [name, ...args] = input.trim().split(/\s+/);
+    if (!name) return;
+
+    const command = this.commands.get(name);
+    if (!command) {
+      showToast(`Unknown command: ${name}`);
+      return;
+    }
+
+    try {
+      await command.handler(args);
+    } catch (error: any) {
+      console.error(`[CommandRegistry] :${name} failed:`, error);
+      showToast(`:${name} failed: ${error.message || error}`);
+    }
+  }
+
+  // Registered command names with descriptions, sorted by name
+  getCommands(): { name: string; description: string }[] {
+    return Array.from(this.commands.entries())
+      .map(([name, { description }]) => ({ name, description }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
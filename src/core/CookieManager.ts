@@ -0,0 +1,233 @@
+import { NetworkCapture } from './NetworkCapture';
+import { CommandRegistry } from './CommandRegistry';
+import { RequestEditor } from '../components/RequestEditor';
+import { ListPanel } from '../components/ListPanel';
+import { showToast } from '../utils/toast';
+
+// Network.Cookie fields we read and write back
+interface BrowserCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number;                         // Seconds since epoch, -1 for session cookies
+  httpOnly: boolean;
+  secure: boolean;
+  session: boolean;
+  sameSite?: string;
+}
+
+const SAME_SITE_VALUES = ['Strict', 'Lax', 'None'];
+
+// Lists and edits the inspected page's cookies through the Network domain
+export class CookieManager {
+  private networkCapture: NetworkCapture;
+  private editor: RequestEditor;
+  private listPanel: ListPanel;
+  private cookies: BrowserCookie[] = [];
+  private deletedCookies: BrowserCookie[] = []; // Undo stack for dd
+
+  constructor(networkCapture: NetworkCapture, editor: RequestEditor, listPanel: ListPanel, commands: CommandRegistry) {
+    this.networkCapture = networkCapture;
+    this.editor = editor;
+    this.listPanel = listPanel;
+
+    commands.register('cookies', 'Edit cookies of the inspected page', () => this.openCookieList());
+  }
+
+  private async openCookieList(): Promise<void> {
+    if (!await this.loadCookies()) return;
+
+    this.listPanel.open({
+      title: 'Cookies of the inspected page',
+      emptyMessage: 'No cookies. Press a to add one.',
+      getItems: () => this.cookies.map(cookie => ({
+        label: `${cookie.name}=${cookie.value}  (${cookie.domain}${cookie.path})`,
+        enabled: true
+      })),
+      onEdit: (index) => this.openCookieEditor(this.cookies[index]),
+      onAdd: () => this.openCookieEditor(),
+      onDelete: (index) => this.deleteCookie(this.cookies[index]),
+      onUndo: () => this.undoDelete()
+    });
+  }
+
+  // Cookies for the page URL and its subframes (Network.getCookies default)
+  private async loadCookies(): Promise<boolean> {
+    try {
+      const result = await this.networkCapture.sendCommand('Network.getCookies');
+      this.cookies = (result?.cookies || []) as BrowserCookie[];
+      this.cookies.sort((a, b) => a.domain.localeCompare(b.domain) || a.name.localeCompare(b.name));
+      return true;
+    } catch (error: any) {
+      showToast(`Failed to read cookies: ${error.message || error}`);
+      return false;
+    }
+  }
+
+  private async reload(): Promise<void> {
+    await this.loadCookies();
+    this.listPanel.refresh();
+  }
+
+  private async deleteCookie(cookie: BrowserCookie): Promise<void> {
+    try {
+      await this.networkCapture.sendCommand('Network.deleteCookies', {
+        name: cookie.name,
+        domain: cookie.domain,
+        path: cookie.path
+      });
+      this.deletedCookies.push(cookie);
+      showToast(`Deleted cookie ${cookie.name} (u to undo)`);
+    } catch (error: any) {
+      showToast(`Failed to delete cookie: ${error.message || error}`);
+    }
+    await this.reload();
+  }
+
+  private async undoDelete(): Promise<void> {
+    const cookie = this.deletedCookies.pop();
+    if (!cookie) {
+      showToast('Nothing to undo');
+      return;
+    }
+
+    if (await this.setCookie(cookie)) {
+      showToast(`Restored cookie ${cookie.name}`);
+    } else {
+      this.deletedCookies.push(cookie);
+    }
+    await this.reload();
+  }
+
+  // Edit an existing cookie, or add a new one for the page URL
+  private openCookieEditor(cookie?: BrowserCookie): void {
+    this.editor.open({
+      title: cookie ? `Edit cookie ${cookie.name}` : 'New cookie (empty domain = current page)',
+      fields: [
+        { name: 'name', label: 'Name', value: cookie?.name || '' },
+        { name: 'value', label: 'Value', value: cookie?.value || '' },
+        { name: 'domain', label: 'Domain (leading dot = include subdomains)', value: cookie?.domain || '' },
+        { name: 'path', label: 'Path', value: cookie?.path || '/' },
+        { name: 'expires', label: 'Expires (date, empty = session)', value: cookie && !cookie.session ? new Date(cookie.expires * 1000).toISOString() : '' },
+        { name: 'httpOnly', label: 'HttpOnly (true/false)', value: String(!!cookie?.httpOnly) },
+        { name: 'secure', label: 'Secure (true/false)', value: String(!!cookie?.secure) },
+        { name: 'sameSite', label: 'SameSite (Strict/Lax/None, empty = default)', value: cookie?.sameSite || '' }
+      ],
+      submitLabel: 'save',
+      onSubmit: (values) => {
+        const updated = this.parseEditorValues(values);
+        if (!updated) return false;
+        this.saveCookie(updated, cookie);
+      }
+    });
+  }
+
+  private parseEditorValues(values: Record<string, string>): BrowserCookie | null {
+    const name = values.name.trim();
+    if (!name) {
+      showToast('Cookie name is required');
+      return null;
+    }
+
+    const expiresText = values.expires.trim();
+    const expires = expiresText ? Date.parse(expiresText) : -1;
+    if (isNaN(expires)) {
+      showToast(`Invalid expiry date: ${expiresText}`);
+      return null;
+    }
+
+    const sameSite = SAME_SITE_VALUES.find(v => v.toLowerCase() === values.sameSite.trim().toLowerCase());
+    if (values.sameSite.trim() && !sameSite) {
+      showToast('SameSite must be Strict, Lax or None');
+      return null;
+    }
+
+    return {
+      name,
+      value: values.value,
+      domain: values.domain.trim(),
+      path: values.path.trim() || '/',
+      expires: expires === -1 ? -1 : expires / 1000,
+      httpOnly: values.httpOnly.trim() === 'true',
+      secure: values.secure.trim() === 'true',
+      session: expires === -1,
+      sameSite
+    };
+  }
+
+  // Renaming or moving a cookie creates a new one: remove the original once the new one is set
+  private async saveCookie(updated: BrowserCookie, original?: BrowserCookie): Promise<void> {
+    if (!updated.domain) {
+      // Empty domain = a host-only cookie for the page
+      try {
+        updated = { ...updated, domain: new URL(await this.getPageUrl()).hostname };
+      } catch (error: any) {
+        showToast(`Failed to set cookie: ${error.message || error}`);
+        await this.openCookieList();
+        return;
+      }
+    }
+
+    if (await this.setCookie(updated)) {
+      const moved = original && (original.name !== updated.name || original.domain !== updated.domain || original.path !== updated.path);
+      if (moved) {
+        try {
+          await this.networkCapture.sendCommand('Network.deleteCookies', {
+            name: original.name,
+            domain: original.domain,
+            path: original.path
+          });
+        } catch (error) {
+          // The new cookie is set; the old one may linger
+        }
+      }
+      showToast(`Saved cookie ${updated.name}`);
+    }
+
+    // Editor closed the list: show it again with the change applied
+    await this.openCookieList();
+  }
+
+  // Returns false (after a toast) when the browser rejects the cookie
+  private async setCookie(cookie: BrowserCookie): Promise<boolean> {
+    try {
+      // A domain makes a cookie for the domain and its subdomains; host-only cookies (no leading dot) need a URL
+      const target = cookie.domain.startsWith('.')
+        ? { domain: cookie.domain }
+        : { url: `${cookie.secure ? 'https' : 'http'}://${cookie.domain}${cookie.path}` };
+      const result = await this.networkCapture.sendCommand('Network.setCookie', {
+        name: cookie.name,
+        value: cookie.value,
+        ...target,
+        path: cookie.path,
+        secure: cookie.secure,
+        httpOnly: cookie.httpOnly,
+        sameSite: cookie.sameSite,
+        expires: cookie.session ? undefined : cookie.expires
+      });
+
+      // Older protocol versions report rejection via success: false instead of an error
+      if (result && result.success === false) {
+        showToast(`Browser rejected cookie ${cookie.name} (check domain, Secure and SameSite)`);
+        return false;
+      }
+      return true;
+    } catch (error: any) {
+      showToast(`Failed to set cookie: ${error.message || error}`);
+      return false;
+    }
+  }
+
+  private getPageUrl(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      chrome.devtools.inspectedWindow.eval('location.href', (result, exceptionInfo) => {
+        if (exceptionInfo && (exceptionInfo.isError || exceptionInfo.isException)) {
+          reject(new Error('Cannot read the page URL'));
+        } else {
+          resolve(result as string);
+        }
+      });
+    });
+  }
+}
@@ -1,12 +1,48 @@
 import { StateManager } from './StateManager';
-import { AppMode, InspectFocus } from '../types';
+import { AppMode, InspectFocus, PreviewTab, NetworkRequest, SortColumn } from '../types';
 import { CopyUtil } from '../utils/copy';
+import { showToast } from '../utils/toast';
 import { JsonViewer } from '../components/JsonViewer';
-
-// Extend window to include jsonViewer
+import { MessagesList } from '../components/MessagesList';
+import { RequestEditor } from '../components/RequestEditor';
+import { ListPanel } from '../components/ListPanel';
+import { CommandRegistry } from './CommandRegistry';
+import { RequestInterceptor } from './RequestInterceptor';
+import { MockRuleManager } from './MockRuleManager';
+import { RequestReplayer } from './RequestReplayer';
+import { BlockListManager } from './BlockListManager';
+import { SortManager } from './SortManager';
+import { CookiesList } from '../components/CookiesList';
+import { InitiatorView } from '../components/InitiatorView';
+import { SecurityView } from '../components/SecurityView';
+
+// Second key of the s{key} sort shortcuts ('sx' restores capture order)
+const SORT_SHORTCUTS: Record<string, SortColumn> = {
+  'n': 'name',
+  'c': 'status',
+  'm': 'method',
+  'y': 'type',
+  's': 'size',
+  'd': 'duration',
+  't': 'start'
+};
+
+// Extend window to include components and services driven from the keyboard
 declare global {
   interface Window {
     jsonViewer?: JsonViewer;
+    messagesList?: MessagesList;
+    requestEditor?: RequestEditor;
+    commandRegistry?: CommandRegistry;
+    requestInterceptor?: RequestInterceptor;
+    mockRuleManager?: MockRuleManager;
+    requestReplayer?: RequestReplayer;
+    listPanel?: ListPanel;
+    blockListManager?: BlockListManager;
+    sortManager?: SortManager;
+    cookiesList?: CookiesList;
+    initiatorView?: InitiatorView;
+    securityView?: SecurityView;
   }
 }
 
@@ -46,6 +82,15 @@ export class KeyboardHandler {
       case AppMode.COPY:
         this.handleCopyMode(event);
         break;
+      case AppMode.COMMAND:
+        this.handleCommandMode(event);
+        break;
+      case AppMode.EDIT:
+        this.handleEditMode(event);
+        break;
+      case AppMode.LIST:
+        this.handleListMode(event);
+        break;
     }
   }
 
@@ -55,11 +100,25 @@ export class KeyboardHandler {
     const requests = this.stateManager.getFilteredRequests();
 
     // Prevent default for vim keys to avoid browser shortcuts
-    const vimKeys = ['j', 'k', 'h', 'l', 'g', 'G', '/', 'f', 'd', 'q', 'c'];
+    const vimKeys = ['j', 'k', 'h', 'l', 'g', 'G', '/', 'f', 'd', 'q', 'c', ':', 'b', 'r', 'p', 'x', 'X', 'v', 's'];
     if (vimKeys.includes(event.key)) {
       event.preventDefault();
     }
 
+    // Second key of a sort shortcut takes precedence over its own binding
+    if (this.keySequence === 's' && !event.ctrlKey && event.key !== 'Shift') {
+      event.preventDefault();
+      this.handleSortKey(event.key);
+      return;
+    }
+
+    // dr clears the list; r alone would open the resend editor
+    if (this.keySequence === 'd' && event.key === 'r') {
+      event.preventDefault();
+      this.handleDSequence(event);
+      return;
+    }
+
     switch (event.key) {
       case 'j':
         // Move selection down one row
@@ -72,13 +131,30 @@ export class KeyboardHandler {
         break;
 
       case 'h':
-        // Collapse currently selected JSON node
-        this.toggleJsonNode(false);
+        // Tree view: collapse the selected branch (or the one it belongs to)
+        if (state.requestView === 'tree') {
+          this.collapseTreeNode(requests[state.selectedIndex]);
+        } else {
+          // Collapse currently selected JSON node
+          this.toggleJsonNode(false);
+        }
         break;
 
       case 'l':
-        // Expand currently selected JSON node
-        this.toggleJsonNode(true);
+        // Tree view: expand the selected branch
+        if (state.requestView === 'tree') {
+          if (requests[state.selectedIndex]) {
+            this.stateManager.setTreeNodeCollapsed(requests[state.selectedIndex].id, false);
+          }
+        } else {
+          // Expand currently selected JSON node
+          this.toggleJsonNode(true);
+        }
+        break;
+
+      case 'v':
+        // Switch between the flat list and the initiator tree
+        this.stateManager.setRequestView(state.requestView === 'tree' ? 'flat' : 'tree');
         break;
 
       case 'g':
@@ -112,18 +188,79 @@ export class KeyboardHandler {
         this.handleDSequence(event);
         break;
 
+      case 's':
+        // Start a sort shortcut: 'ss' size, 'sd' duration, ... (wait for the column key)
+        if (!event.ctrlKey) {
+          this.startSortSequence();
+        }
+        break;
+
+      case ':':
+        // Enter command mode
+        this.stateManager.setState({ mode: AppMode.COMMAND });
+        break;
+
+      case 'b':
+        // Toggle breakpoint on the selected request's endpoint
+        if (requests[state.selectedIndex] && !requests[state.selectedIndex].isSeparator) {
+          window.requestInterceptor?.toggleBreakpoint(requests[state.selectedIndex].url);
+        }
+        break;
+
+      case 'x':
+      case 'X':
+        // Block the selected request's exact URL (x) or its whole domain (X)
+        if (requests[state.selectedIndex] && !requests[state.selectedIndex].isSeparator) {
+          window.blockListManager?.toggleBlock(requests[state.selectedIndex].url, event.key === 'X');
+        }
+        break;
+
+      case 'p':
+        // Toggle preserve log (Ctrl+p is quick search)
+        if (!event.ctrlKey) {
+          (window as unknown as { networkCapture?: { togglePreserveLog: () => void } }).networkCapture?.togglePreserveLog();
+        }
+        break;
+
+      case 'r':
+        // Edit and resend the selected request
+        if (requests[state.selectedIndex] && !requests[state.selectedIndex].isSeparator) {
+          window.requestReplayer?.openResendEditor(requests[state.selectedIndex]);
+        }
+        break;
+
       case 'Enter':
+        // Navigation separators have nothing to inspect
+        if (requests[state.selectedIndex]?.isSeparator) {
+          break;
+        }
+
+        // Paused requests open in the editor instead of inspect mode
+        if (requests[state.selectedIndex]?.paused && window.requestInterceptor?.editPausedRequest(requests[state.selectedIndex])) {
+          break;
+        }
+
         // Enter inspect mode - respect the currently selected previewTab
         const currentTab = state.previewTab;
         const focusMap: Record<string, InspectFocus> = {
           'headers': InspectFocus.HEADERS,
           'response': InspectFocus.RESPONSE,
-          'preview': InspectFocus.PREVIEW
+          'preview': InspectFocus.PREVIEW,
+          'messages': InspectFocus.MESSAGES,
+          'timing': InspectFocus.TIMING,
+          'cookies': InspectFocus.COOKIES,
+          'initiator': InspectFocus.INITIATOR,
+          'security': InspectFocus.SECURITY
         };
         const selectorMap: Record<string, string> = {
           'headers': '#headers-view',
           'response': '#response-view',
-          'preview': '#preview-view'
+          'preview': '#preview-view',
+          'messages': '#messages-view',
+          'timing': '#timing-view',
+          'cookies': '#cookies-view',
+          'initiator': '#initiator-view',
+          'security': '#security-view'
         };
         
         this.stateManager.setState({ 
@@ -188,6 +325,26 @@ export class KeyboardHandler {
         case 'P':
           this.stateManager.setState({ previewTab: 'preview' });
           break;
+        case 'M':
+          this.stateManager.setState({ previewTab: 'messages' });
+          break;
+        case 'T':
+          this.stateManager.setState({ previewTab: 'timing' });
+          break;
+        case 'C':
+          this.stateManager.setState({ previewTab: 'cookies' });
+          break;
+        case 'I':
+          this.stateManager.setState({ previewTab: 'initiator' });
+          break;
+        case 'S':
+          this.stateManager.setState({ previewTab: 'security' });
+          break;
+        case 'R':
+          // Reload the inspected page (:reload! bypasses the cache)
+          event.preventDefault();
+          (window as unknown as { networkCapture?: { reloadInspectedPage: () => void } }).networkCapture?.reloadInspectedPage();
+          break;
       }
     }
   }
@@ -212,6 +369,122 @@ export class KeyboardHandler {
     // Other keys are handled by the search input element
   }
 
+  // Command mode: Enter runs the typed command, Escape (or Backspace on empty input) cancels
+  private handleCommandMode(event: KeyboardEvent): void {
+    const commandInput = document.getElementById('command-input') as HTMLInputElement | null;
+
+    switch (event.key) {
+      case 'Escape':
+        event.preventDefault();
+        this.stateManager.setState({ mode: AppMode.NORMAL });
+        break;
+      case 'Backspace':
+        if (commandInput && commandInput.value === '') {
+          event.preventDefault();
+          this.stateManager.setState({ mode: AppMode.NORMAL });
+        }
+        break;
+      case 'Enter':
+        event.preventDefault();
+        this.stateManager.setState({ mode: AppMode.NORMAL });
+        if (commandInput) {
+          window.commandRegistry?.execute(commandInput.value);
+        }
+        break;
+    }
+    // Other keys are handled by the command input element
+  }
+
+  // Edit mode: Ctrl+Enter submits, Ctrl+Shift+Enter aborts, Escape closes the editor
+  private handleEditMode(event: KeyboardEvent): void {
+    const editor = window.requestEditor;
+    if (!editor) return;
+
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      editor.close();
+    } else if (event.key === 'Enter' && event.ctrlKey) {
+      event.preventDefault();
+      if (event.shiftKey) {
+        editor.abort();
+      } else {
+        editor.submit();
+      }
+    }
+    // Other keys are handled by the editor's form fields
+  }
+
+  // List mode: j/k to move, Enter to edit, Space to toggle, dd to delete, q/Escape to close
+  private handleListMode(event: KeyboardEvent): void {
+    const listPanel = window.listPanel;
+    if (!listPanel) return;
+
+    switch (event.key) {
+      case 'q':
+      case 'Escape':
+        event.preventDefault();
+        listPanel.close();
+        break;
+      case 'j':
+      case 'ArrowDown':
+        event.preventDefault();
+        listPanel.moveSelection(1);
+        break;
+      case 'k':
+      case 'ArrowUp':
+        event.preventDefault();
+        listPanel.moveSelection(-1);
+        break;
+      case 'Enter':
+        event.preventDefault();
+        listPanel.editSelected();
+        break;
+      case ' ':
+        event.preventDefault();
+        listPanel.toggleSelected();
+        break;
+      case 'J':
+        event.preventDefault();
+        listPanel.moveItem(1);
+        break;
+      case 'K':
+        event.preventDefault();
+        listPanel.moveItem(-1);
+        break;
+      case 'd':
+        event.preventDefault();
+        this.handleListDSequence();
+        break;
+      case 'a':
+        event.preventDefault();
+        listPanel.addItem();
+        break;
+      case 'u':
+        event.preventDefault();
+        listPanel.undo();
+        break;
+    }
+  }
+
+  // Handle 'dd' sequence (delete list item)
+  private handleListDSequence(): void {
+    this.keySequence += 'd';
+    
+    if (this.sequenceTimeout) {
+      clearTimeout(this.sequenceTimeout);
+    }
+
+    if (this.keySequence === 'dd') {
+      window.listPanel?.deleteSelected();
+      this.keySequence = '';
+    } else {
+      // Wait for second 'd' (timeout after 1 second)
+      this.sequenceTimeout = window.setTimeout(() => {
+        this.keySequence = '';
+      }, 1000);
+    }
+  }
+
   // Filter mode: Handle q to exit, h/l navigation, and Enter to toggle
   private handleFilterMode(event: KeyboardEvent): void {
     type FilterManagerType = {
@@ -275,7 +548,7 @@ export class KeyboardHandler {
       return;
     }
 
-    // Handle tab switching with Shift+H/L/P
+    // Handle tab switching with Shift+H/L/P/M/T
     if (event.shiftKey) {
       switch (event.key) {
         case 'H':
@@ -290,6 +563,26 @@ export class KeyboardHandler {
           event.preventDefault();
           this.switchToPanel('preview', InspectFocus.PREVIEW, '#preview-view');
           return;
+        case 'M':
+          event.preventDefault();
+          this.switchToPanel('messages', InspectFocus.MESSAGES, '#messages-view');
+          return;
+        case 'T':
+          event.preventDefault();
+          this.switchToPanel('timing', InspectFocus.TIMING, '#timing-view');
+          return;
+        case 'C':
+          event.preventDefault();
+          this.switchToPanel('cookies', InspectFocus.COOKIES, '#cookies-view');
+          return;
+        case 'I':
+          event.preventDefault();
+          this.switchToPanel('initiator', InspectFocus.INITIATOR, '#initiator-view');
+          return;
+        case 'S':
+          event.preventDefault();
+          this.switchToPanel('security', InspectFocus.SECURITY, '#security-view');
+          return;
       }
     }
 
@@ -390,6 +683,176 @@ export class KeyboardHandler {
         this.navigateJsonTo('last');
         return;
       }
+    } else if (state.inspectFocus === InspectFocus.MESSAGES && state.previewTab === 'messages') {
+      // WebSocket frame / SSE event navigation in Messages tab
+      if (event.key === 'j') {
+        event.preventDefault();
+        window.messagesList?.moveSelection(1);
+        return;
+      }
+
+      if (event.key === 'k') {
+        event.preventDefault();
+        window.messagesList?.moveSelection(-1);
+        return;
+      }
+
+      // Enter opens the selected JSON message in the Preview tab
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        this.openSelectedMessage();
+        return;
+      }
+
+      // y to copy (yank) the selected message payload
+      if (event.key === 'y') {
+        event.preventDefault();
+        this.copySelectedMessage();
+        return;
+      }
+
+      // Handle gg (go to first frame) and G (go to last frame)
+      if (event.key === 'g') {
+        this.handleMessagesGSequence(event);
+        return;
+      }
+
+      if (event.key === 'G') {
+        event.preventDefault();
+        window.messagesList?.navigateTo('last');
+        return;
+      }
+    } else if (state.inspectFocus === InspectFocus.COOKIES && state.previewTab === 'cookies') {
+      // Cookie navigation in Cookies tab
+      if (event.key === 'j') {
+        event.preventDefault();
+        window.cookiesList?.moveSelection(1);
+        return;
+      }
+
+      if (event.key === 'k') {
+        event.preventDefault();
+        window.cookiesList?.moveSelection(-1);
+        return;
+      }
+
+      // y to copy (yank) the selected cookie value
+      if (event.key === 'y') {
+        event.preventDefault();
+        window.cookiesList?.copySelectedCookieValue();
+        return;
+      }
+
+      // Handle gg (go to first cookie) and G (go to last cookie)
+      if (event.key === 'g') {
+        this.handleCookiesGSequence(event);
+        return;
+      }
+
+      if (event.key === 'G') {
+        event.preventDefault();
+        window.cookiesList?.navigateTo('last');
+        return;
+      }
+    } else if (state.inspectFocus === InspectFocus.RESPONSE && state.previewTab === 'response' && window.hexDumpView?.hasContent()) {
+      // Row navigation in the hex dump of a binary response
+      if (event.key === 'j') {
+        event.preventDefault();
+        window.hexDumpView.moveSelection(1);
+        return;
+      }
+
+      if (event.key === 'k') {
+        event.preventDefault();
+        window.hexDumpView.moveSelection(-1);
+        return;
+      }
+
+      // y to copy (yank) the selected row's bytes
+      if (event.key === 'y') {
+        event.preventDefault();
+        window.hexDumpView.copySelectedRow();
+        return;
+      }
+
+      // Handle gg (go to first row) and G (go to last row)
+      if (event.key === 'g') {
+        this.handleHexGSequence(event);
+        return;
+      }
+
+      if (event.key === 'G') {
+        event.preventDefault();
+        window.hexDumpView.navigateTo('last');
+        return;
+      }
+    } else if (state.inspectFocus === InspectFocus.INITIATOR && state.previewTab === 'initiator') {
+      // Stack frame navigation in Initiator tab
+      if (event.key === 'j') {
+        event.preventDefault();
+        window.initiatorView?.moveSelection(1);
+        return;
+      }
+
+      if (event.key === 'k') {
+        event.preventDefault();
+        window.initiatorView?.moveSelection(-1);
+        return;
+      }
+
+      // Enter opens the selected frame in the Sources panel
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        const selectedRequest = this.stateManager.getFilteredRequests()[state.selectedIndex];
+        if (selectedRequest) {
+          window.initiatorView?.openSelectedFrame(selectedRequest);
+        }
+        return;
+      }
+
+      // Handle gg (go to first frame) and G (go to last frame)
+      if (event.key === 'g') {
+        this.handleInitiatorGSequence(event);
+        return;
+      }
+
+      if (event.key === 'G') {
+        event.preventDefault();
+        window.initiatorView?.navigateTo('last');
+        return;
+      }
+    } else if (state.inspectFocus === InspectFocus.SECURITY && state.previewTab === 'security') {
+      // Field navigation in Security tab
+      if (event.key === 'j') {
+        event.preventDefault();
+        window.securityView?.moveSelection(1);
+        return;
+      }
+
+      if (event.key === 'k') {
+        event.preventDefault();
+        window.securityView?.moveSelection(-1);
+        return;
+      }
+
+      // Copy the selected field's value
+      if (event.key === 'y') {
+        event.preventDefault();
+        window.securityView?.copySelectedValue();
+        return;
+      }
+
+      // Handle gg (go to first row) and G (go to last row)
+      if (event.key === 'g') {
+        this.handleSecurityGSequence(event);
+        return;
+      }
+
+      if (event.key === 'G') {
+        event.preventDefault();
+        window.securityView?.navigateTo('last');
+        return;
+      }
     } else {
       // Existing scroll behavior for Response tab
       if (event.key === 'j') {
@@ -431,6 +894,16 @@ export class KeyboardHandler {
       }
     }
 
+    // m turns the selected response into a mock rule
+    if (event.key === 'm') {
+      event.preventDefault();
+      const selectedRequest = this.stateManager.getFilteredRequests()[state.selectedIndex];
+      if (selectedRequest && !selectedRequest.isSeparator) {
+        window.mockRuleManager?.createRuleFromRequest(selectedRequest);
+      }
+      return;
+    }
+
     // Search within the panel with /
     if (event.key === '/') {
       event.preventDefault();
@@ -474,7 +947,7 @@ export class KeyboardHandler {
 
   // Handle 'dd' (delete) and 'dr' (delete all) sequences
   private handleDSequence(event: KeyboardEvent): void {
-    this.keySequence += 'd';
+    this.keySequence += event.key;
     
     if (this.sequenceTimeout) {
       clearTimeout(this.sequenceTimeout);
@@ -484,7 +957,10 @@ export class KeyboardHandler {
 
     if (this.keySequence === 'dd') {
       // Delete selected request
-      this.stateManager.deleteRequest(state.selectedIndex);
+      const selected = this.stateManager.getFilteredRequests()[state.selectedIndex];
+      if (selected) {
+        this.stateManager.deleteRequest(selected.id);
+      }
       this.keySequence = '';
     } else if (this.keySequence === 'dr') {
       // Clear all requests
@@ -498,6 +974,36 @@ export class KeyboardHandler {
     }
   }
 
+  private startSortSequence(): void {
+    this.keySequence = 's';
+
+    if (this.sequenceTimeout) {
+      clearTimeout(this.sequenceTimeout);
+    }
+    // Wait for the column key (timeout after 1 second)
+    this.sequenceTimeout = window.setTimeout(() => {
+      this.keySequence = '';
+    }, 1000);
+  }
+
+  // Sort by the column bound to the key; the same key again reverses the order
+  private handleSortKey(key: string): void {
+    this.keySequence = '';
+    if (this.sequenceTimeout) {
+      clearTimeout(this.sequenceTimeout);
+    }
+
+    if (key === 'Escape') {
+      return;
+    } else if (key === 'x') {
+      window.sortManager?.clear();
+    } else if (SORT_SHORTCUTS[key]) {
+      window.sortManager?.sortBy(SORT_SHORTCUTS[key]);
+    } else {
+      showToast('Sort keys: n name, c status, m method, y type, s size, d duration, t start, x off');
+    }
+  }
+
   // Move selection by delta, clamped to valid range
   private moveSelection(delta: number, maxLength: number): void {
     const state = this.stateManager.getState();
@@ -505,6 +1011,19 @@ export class KeyboardHandler {
     this.stateManager.setState({ selectedIndex: newIndex });
   }
 
+  // Collapse the node if it has visible children, otherwise its parent (like HeadersList sections)
+  private collapseTreeNode(request: NetworkRequest | undefined): void {
+    if (!request) return;
+
+    const node = this.stateManager.getTreeNode(request.id);
+    const state = this.stateManager.getState();
+    if (node?.hasChildren && !state.collapsedTreeNodes.has(request.id)) {
+      this.stateManager.setTreeNodeCollapsed(request.id, true);
+    } else if (node?.parentId) {
+      this.stateManager.setTreeNodeCollapsed(node.parentId, true);
+    }
+  }
+
   // Toggle JSON node expansion
   private toggleJsonNode(expand: boolean): void {
     // Implementation depends on JSON viewer component
@@ -517,9 +1036,11 @@ export class KeyboardHandler {
   }
 
   // Export all requests to JSON/HAR file
-  private exportData(): void {
+  private async exportData(): Promise<void> {
     const state = this.stateManager.getState();
-    const data = JSON.stringify(state.requests, null, 2);
+    const networkCapture = (window as unknown as { networkCapture?: { fetchRequestBodies: (requests: NetworkRequest[]) => Promise<void> } }).networkCapture;
+    await networkCapture?.fetchRequestBodies(state.requests);
+    const data = JSON.stringify(state.requests.filter(req => !req.isSeparator), null, 2);
     const blob = new Blob([data], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     
@@ -547,31 +1068,41 @@ export class KeyboardHandler {
   // Cycle through inspect panels
   private cycleInspectFocus(direction: number): void {
     const state = this.stateManager.getState();
-    const panels = [InspectFocus.HEADERS, InspectFocus.RESPONSE, InspectFocus.PREVIEW];
+    const panels = [InspectFocus.HEADERS, InspectFocus.RESPONSE, InspectFocus.PREVIEW, InspectFocus.MESSAGES, InspectFocus.TIMING, InspectFocus.COOKIES, InspectFocus.INITIATOR, InspectFocus.SECURITY];
     const currentIndex = panels.indexOf(state.inspectFocus);
     const newIndex = (currentIndex + direction + panels.length) % panels.length;
     const newFocus = panels[newIndex];
     
     // Map focus to tab and selector
-    const tabMap = {
+    const tabMap: Record<InspectFocus, PreviewTab> = {
       [InspectFocus.HEADERS]: 'headers',
       [InspectFocus.RESPONSE]: 'response',
-      [InspectFocus.PREVIEW]: 'preview'
+      [InspectFocus.PREVIEW]: 'preview',
+      [InspectFocus.MESSAGES]: 'messages',
+      [InspectFocus.TIMING]: 'timing',
+      [InspectFocus.COOKIES]: 'cookies',
+      [InspectFocus.INITIATOR]: 'initiator',
+      [InspectFocus.SECURITY]: 'security'
     };
     
     const selectorMap = {
       [InspectFocus.HEADERS]: '#headers-view',
       [InspectFocus.RESPONSE]: '#response-view',
-      [InspectFocus.PREVIEW]: '#preview-view'
+      [InspectFocus.PREVIEW]: '#preview-view',
+      [InspectFocus.MESSAGES]: '#messages-view',
+      [InspectFocus.TIMING]: '#timing-view',
+      [InspectFocus.COOKIES]: '#cookies-view',
+      [InspectFocus.INITIATOR]: '#initiator-view',
+      [InspectFocus.SECURITY]: '#security-view'
     };
     
-    this.switchToPanel(tabMap[newFocus] as any, newFocus, selectorMap[newFocus]);
+    this.switchToPanel(tabMap[newFocus], newFocus, selectorMap[newFocus]);
   }
 
   // Helper method to switch to a specific panel
-  private switchToPanel(tab: 'headers' | 'response' | 'preview', focus: InspectFocus, selector: string): void {
+  private switchToPanel(tab: PreviewTab, focus: InspectFocus, selector: string): void {
     // Remove tabindex from all panels
-    const allPanels = ['#headers-view', '#response-view', '#preview-view'];
+    const allPanels = ['#headers-view', '#response-view', '#preview-view', '#messages-view', '#timing-view', '#cookies-view', '#initiator-view', '#security-view'];
     allPanels.forEach(sel => {
       const panel = document.querySelector(sel) as HTMLElement;
       if (panel) {
@@ -672,7 +1203,12 @@ export class KeyboardHandler {
     const panelMap = {
       [InspectFocus.HEADERS]: '#headers-view',
       [InspectFocus.RESPONSE]: '#response-view',
-      [InspectFocus.PREVIEW]: '#preview-view'
+      [InspectFocus.PREVIEW]: '#preview-view',
+      [InspectFocus.MESSAGES]: '#messages-view',
+      [InspectFocus.TIMING]: '#timing-view',
+      [InspectFocus.COOKIES]: '#cookies-view',
+      [InspectFocus.INITIATOR]: '#initiator-view',
+      [InspectFocus.SECURITY]: '#security-view'
     };
     
     const selector = panelMap[state.inspectFocus];
@@ -943,6 +1479,127 @@ export class KeyboardHandler {
     }
   }
 
+  // Open selected WebSocket frame or SSE event in the Preview tab's JSON viewer
+  private openSelectedMessage(): void {
+    const messagesList = window.messagesList;
+    if (!messagesList) return;
+
+    if (messagesList.openSelectedMessage()) {
+      this.switchToPanel('preview', InspectFocus.PREVIEW, '#preview-view');
+    } else {
+      showToast('Not a JSON message');
+    }
+  }
+
+  // Copy selected WebSocket frame payload or SSE event data
+  private copySelectedMessage(): void {
+    const payload = window.messagesList?.getSelectedPayload();
+    if (payload === null || payload === undefined) return;
+
+    CopyUtil.toClipboard(payload);
+    showToast('Copied message');
+  }
+
+  // Handle 'gg' sequence for messages navigation
+  private handleMessagesGSequence(event: KeyboardEvent): void {
+    this.keySequence += 'g';
+    
+    if (this.sequenceTimeout) {
+      clearTimeout(this.sequenceTimeout);
+    }
+
+    if (this.keySequence === 'gg') {
+      event.preventDefault();
+      window.messagesList?.navigateTo('first');
+      this.keySequence = '';
+    } else {
+      // Wait for second 'g' (timeout after 1 second)
+      this.sequenceTimeout = window.setTimeout(() => {
+        this.keySequence = '';
+      }, 1000);
+    }
+  }
+
+  // Handle gg sequence in the Response tab hex dump (go to first row)
+  private handleHexGSequence(event: KeyboardEvent): void {
+    this.keySequence += 'g';
+    
+    if (this.sequenceTimeout) {
+      clearTimeout(this.sequenceTimeout);
+    }
+
+    if (this.keySequence === 'gg') {
+      event.preventDefault();
+      window.hexDumpView?.navigateTo('first');
+      this.keySequence = '';
+    } else {
+      // Wait for second 'g' (timeout after 1 second)
+      this.sequenceTimeout = window.setTimeout(() => {
+        this.keySequence = '';
+      }, 1000);
+    }
+  }
+
+  // Handle gg sequence in Cookies tab (go to first cookie)
+  private handleCookiesGSequence(event: KeyboardEvent): void {
+    this.keySequence += 'g';
+    
+    if (this.sequenceTimeout) {
+      clearTimeout(this.sequenceTimeout);
+    }
+
+    if (this.keySequence === 'gg') {
+      event.preventDefault();
+      window.cookiesList?.navigateTo('first');
+      this.keySequence = '';
+    } else {
+      // Wait for second 'g' (timeout after 1 second)
+      this.sequenceTimeout = window.setTimeout(() => {
+        this.keySequence = '';
+      }, 1000);
+    }
+  }
+
+  // Handle gg sequence in Initiator tab (go to first frame)
+  private handleInitiatorGSequence(event: KeyboardEvent): void {
+    this.keySequence += 'g';
+    
+    if (this.sequenceTimeout) {
+      clearTimeout(this.sequenceTimeout);
+    }
+
+    if (this.keySequence === 'gg') {
+      event.preventDefault();
+      window.initiatorView?.navigateTo('first');
+      this.keySequence = '';
+    } else {
+      // Wait for second 'g' (timeout after 1 second)
+      this.sequenceTimeout = window.setTimeout(() => {
+        this.keySequence = '';
+      }, 1000);
+    }
+  }
+
+  // Handle gg sequence in Security tab (go to first row)
+  private handleSecurityGSequence(event: KeyboardEvent): void {
+    this.keySequence += 'g';
+    
+    if (this.sequenceTimeout) {
+      clearTimeout(this.sequenceTimeout);
+    }
+
+    if (this.keySequence === 'gg') {
+      event.preventDefault();
+      window.securityView?.navigateTo('first');
+      this.keySequence = '';
+    } else {
+      // Wait for second 'g' (timeout after 1 second)
+      this.sequenceTimeout = window.setTimeout(() => {
+        this.keySequence = '';
+      }, 1000);
+    }
+  }
+
   // Copy mode: Handle menu navigation
   private handleCopyMode(event: KeyboardEvent): void {
     const copyMenu = (window as unknown as { copyMenu?: { moveSelection: (d: number) => void; executeSelectedAction: () => void } }).copyMenu;
@@ -1046,7 +1703,7 @@ export class KeyboardHandler {
 
     const value = CopyUtil.copyJsonValue(node);
     CopyUtil.toClipboard(value);
-    this.showToast('Copied value');
+    showToast('Copied value');
   }
 
   // Copy current JSON node as full JSON
@@ -1057,7 +1714,7 @@ export class KeyboardHandler {
     const json = jsonViewer.getCurrentNodeAsJson();
     if (json) {
       CopyUtil.toClipboard(json);
-      this.showToast('Copied as JSON');
+      showToast('Copied as JSON');
     }
   }
 
@@ -1069,7 +1726,7 @@ export class KeyboardHandler {
     const path = jsonViewer.getCurrentPath();
     if (path) {
       CopyUtil.toClipboard(path);
-      this.showToast('Copied path');
+      showToast('Copied path');
     }
   }
 
@@ -1092,26 +1749,5 @@ export class KeyboardHandler {
       }, 1000);
     }
   }
-
-  // Show toast notification
-  private showToast(message: string): void {
-    const toast = document.createElement('div');
-    toast.className = 'toast';
-    toast.textContent = message;
-    document.body.appendChild(toast);
-    
-    setTimeout(() => {
-      toast.classList.add('visible');
-    }, 10);
-    
-    setTimeout(() => {
-      toast.classList.remove('visible');
-      setTimeout(() => {
-        if (toast.parentNode) {
-          document.body.removeChild(toast);
-        }
-      }, 300);
-    }, 2000);
-  }
 }
 
@@ -0,0 +1,205 @@
+import { MockRule, NetworkRequest } from '../types';
+import { NetworkCapture } from './NetworkCapture';
+import { CommandRegistry } from './CommandRegistry';
+import { RequestEditor } from '../components/RequestEditor';
+import { ListPanel } from '../components/ListPanel';
+import { formatHeaderLines, parseHeaderLines } from '../utils/headers';
+import { isRegexPattern, matchesUrlPattern, getEndpointPattern } from '../utils/urlPattern';
+import { safeStringify } from '../utils/safeJson';
+import { isBinaryBody } from '../utils/encoding';
+import { showToast } from '../utils/toast';
+
+const STORAGE_KEY = 'vim-network-mock-rules';
+
+// Headers describing the original transfer, which no longer apply to the decoded body we serve
+const TRANSFER_HEADERS = ['content-length', 'content-encoding', 'transfer-encoding'];
+
+// Rule list for serving local responses; RequestInterceptor enforces the rules via Fetch.fulfillRequest
+export class MockRuleManager {
+  private networkCapture: NetworkCapture;
+  private editor: RequestEditor;
+  private listPanel: ListPanel;
+  private rules: MockRule[] = [];
+  private changeListeners: Set<() => void> = new Set();
+
+  constructor(networkCapture: NetworkCapture, editor: RequestEditor, listPanel: ListPanel, commands: CommandRegistry) {
+    this.networkCapture = networkCapture;
+    this.editor = editor;
+    this.listPanel = listPanel;
+
+    this.registerCommands(commands);
+    this.loadRulesFromStorage();
+  }
+
+  private registerCommands(commands: CommandRegistry): void {
+    commands.register('mock', 'Create a mock rule: :mock <pattern> [status] [method]', (args) => {
+      const [urlPattern, status = '200', method = '*'] = args;
+      if (!urlPattern) {
+        showToast('Usage: :mock <pattern> [status] [method]');
+        return;
+      }
+      this.openRuleEditor({
+        urlPattern,
+        method: method.toUpperCase(),
+        status: parseInt(status, 10) || 200,
+        headers: { 'Content-Type': 'application/json' },
+        body: '',
+        enabled: true
+      });
+    });
+
+    commands.register('mocks', 'List mock rules', () => this.openRuleList());
+
+    commands.register('unmock', 'Remove mock rules for a pattern, or all without arguments', (args) => {
+      const before = this.rules.length;
+      this.rules = args[0] ? this.rules.filter(rule => rule.urlPattern !== args[0]) : [];
+      const removed = before - this.rules.length;
+      if (removed > 0) this.saveRules();
+      showToast(removed > 0 ? `Removed ${removed} mock rule(s)` : 'No matching mock rules');
+    });
+  }
+
+  // Subscribe to rule changes (returns unsubscribe function)
+  public onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  // First enabled rule matching the request, if any
+  public findMatch(url: string, method: string): MockRule | undefined {
+    return this.rules.find(rule =>
+      rule.enabled &&
+      (rule.method === '*' || rule.method === method.toUpperCase()) &&
+      matchesUrlPattern(url, rule.urlPattern)
+    );
+  }
+
+  // Fetch.enable url patterns needed to see requests for enabled rules (regex rules need every request)
+  public getInterceptPatterns(): string[] {
+    const patterns = this.rules
+      .filter(rule => rule.enabled)
+      .map(rule => isRegexPattern(rule.urlPattern) ? '*' : rule.urlPattern);
+    return Array.from(new Set(patterns));
+  }
+
+  // Turn a captured response into a new rule, pre-filled from its headers and body
+  public async createRuleFromRequest(request: NetworkRequest): Promise<void> {
+    let body = request.responseBody;
+    if (body === undefined) {
+      body = await this.networkCapture.fetchResponseBodyLazy(request.id);
+      request.responseBody = body;
+    }
+
+    // Mock bodies are text; binary responses start the rule with an empty body
+    if (isBinaryBody(body)) {
+      showToast(`Binary ${body.mimeType} body not copied into the mock rule`);
+      body = '';
+    }
+
+    const headers: Record<string, string> = {};
+    Object.entries(request.responseHeaders).forEach(([name, value]) => {
+      if (!TRANSFER_HEADERS.includes(name.toLowerCase())) {
+        headers[name] = value;
+      }
+    });
+
+    this.openRuleEditor({
+      urlPattern: getEndpointPattern(request.url),
+      method: request.method,
+      status: request.status || 200,
+      headers,
+      body: body === null || body === undefined ? '' : (typeof body === 'object' ? safeStringify(body, 2) : String(body)),
+      enabled: true
+    });
+  }
+
+  private openRuleList(): void {
+    this.listPanel.open({
+      title: 'Mock rules (first match wins)',
+      emptyMessage: 'No mock rules. Use :mock <pattern> or m on a response in Inspect mode.',
+      getItems: () => this.rules.map(rule => ({
+        label: `${rule.method} ${rule.urlPattern} → ${rule.status}`,
+        enabled: rule.enabled
+      })),
+      onEdit: (index) => this.openRuleEditor(this.rules[index], index),
+      onToggle: (index) => {
+        this.rules[index].enabled = !this.rules[index].enabled;
+        this.saveRules();
+      },
+      onDelete: (index) => {
+        this.rules.splice(index, 1);
+        this.saveRules();
+      }
+    });
+  }
+
+  // Edit a rule in place (index given) or add it as a new rule
+  private openRuleEditor(rule: MockRule, index?: number): void {
+    this.editor.open({
+      title: index === undefined ? 'New mock rule (/pattern/ for regex, * for any method)' : 'Edit mock rule',
+      fields: [
+        { name: 'urlPattern', label: 'URL pattern', value: rule.urlPattern },
+        { name: 'method', label: 'Method', value: rule.method },
+        { name: 'status', label: 'Status', value: String(rule.status) },
+        { name: 'headers', label: 'Headers', value: formatHeaderLines(rule.headers), multiline: true },
+        { name: 'body', label: 'Body', value: rule.body, multiline: true }
+      ],
+      submitLabel: 'save',
+      onSubmit: (values) => {
+        const status = parseInt(values.status, 10);
+        if (!values.urlPattern.trim()) {
+          showToast('URL pattern is required');
+          return false;
+        }
+        if (isNaN(status) || status < 100 || status > 599) {
+          showToast('Status must be a number between 100 and 599');
+          return false;
+        }
+
+        const updated: MockRule = {
+          urlPattern: values.urlPattern.trim(),
+          method: values.method.trim().toUpperCase() || '*',
+          status,
+          headers: parseHeaderLines(values.headers),
+          body: values.body,
+          enabled: rule.enabled
+        };
+
+        if (index === undefined) {
+          this.rules.push(updated);
+        } else {
+          this.rules[index] = updated;
+        }
+        this.saveRules();
+        showToast(`Mock rule saved: ${updated.method} ${updated.urlPattern}`);
+      }
+    });
+  }
+
+  private saveRules(): void {
+    this.saveRulesToStorage();
+    this.changeListeners.forEach(listener => listener());
+  }
+
+  private async loadRulesFromStorage(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEY);
+      const stored = result[STORAGE_KEY] as MockRule[] | undefined;
+
+      if (stored && Array.isArray(stored)) {
+        this.rules = stored;
+        this.changeListeners.forEach(listener => listener());
+      }
+    } catch (error) {
+      // Silently fail - start without mock rules
+    }
+  }
+
+  private async saveRulesToStorage(): Promise<void> {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEY]: this.rules });
+    } catch (error) {
+      // Silently fail - rules will be lost on reload
+    }
+  }
+}
@@ -1,19 +1,39 @@
-import { NetworkRequest, RequestMethod, ResourceType } from '../types';
+import { NetworkRequest, BinaryBody, RequestTarget, TargetType, RequestMethod, ResourceType, WebSocketFrame, EventSourceMessage, RedirectHop, RequestInitiator, StackFrame, SecurityDetails, CacheSource } from '../types';
 import { StateManager } from './StateManager';
+import { buildRequestTiming, getTimeToHeaders } from '../utils/timing';
+import { getHeaderValue } from '../utils/headers';
+import { base64ByteLength, fromBase64, isTextMimeType } from '../utils/encoding';
+
+// chrome.debugger accepts a sessionId for flattened child sessions (not in @types/chrome yet)
+type DebuggerSession = chrome.debugger.Debuggee & { sessionId?: string };
+
+// Auto-attached targets whose requests are captured (others are only resumed)
+const CAPTURED_TARGET_TYPES: TargetType[] = ['iframe', 'worker', 'service_worker', 'shared_worker'];
 
 export class NetworkCapture {
   private stateManager: StateManager;
   private tabId: number;
   private pendingRequests: Map<string, Partial<NetworkRequest>> = new Map();
+  // ExtraInfo events may arrive before their main event: hold them until it does
+  private pendingRequestExtraInfo: Map<string, any> = new Map();
+  private pendingResponseExtraInfo: Map<string, any> = new Map();
+  private rawRequestHeadersApplied: Set<string> = new Set(); // The current hop already has its ExtraInfo
   private responseBodyCache: Map<string, unknown> = new Map(); // Cache for lazy-loaded bodies
   private fetchingBodies: Set<string> = new Set(); // Track in-flight requests
+  private fetchingPostData: Map<string, Promise<void>> = new Map(); // In-flight request body fetches
   private isAttaching: boolean = false; // Prevent concurrent attachment attempts
   private retryCount: number = 0;
   private readonly MAX_RETRIES = 3;
+  private readonly MAX_MESSAGES_PER_CONNECTION = 1000; // Keep memory bounded on chatty sockets/streams
+  private readonly PRESERVE_LOG_KEY = 'vim-network-preserve-log';
+  private readonly CACHE_DISABLED_KEY = 'vim-network-cache-disabled';
   
   // Track main frame to distinguish from iframes (only clear on main frame navigation)
   private mainFrameId: string | null = null;
   
+  // Out-of-process iframes and workers attached through Target.setAutoAttach, by session id
+  private childTargets: Map<string, RequestTarget> = new Map();
+  
   // Batch UI updates to prevent render thrashing
   private pendingUIUpdates: Set<string> = new Set();
   private updateBatchRafId: number | null = null;
@@ -24,6 +44,11 @@ export class NetworkCapture {
   
   // Track message timeout to clear it
   private messageTimeoutId: number | null = null;
+  
+  // Features that share the debugger session (e.g. Fetch interception)
+  private attachListeners: Set<() => void> = new Set();
+  private targetAttachListeners: Set<(sessionId: string) => void> = new Set();
+  private eventListeners: Set<(method: string, params: any, sessionId?: string) => void> = new Set();
 
   constructor(stateManager: StateManager) {
     this.stateManager = stateManager;
@@ -37,9 +62,79 @@ export class NetworkCapture {
     chrome.debugger.onEvent.addListener(this.eventHandler);
     chrome.debugger.onDetach.addListener(this.detachHandler);
     
+    this.loadPreserveLogFromStorage();
+    this.loadCacheDisabledFromStorage();
     this.attachDebugger();
   }
 
+  // Toggle keeping requests across navigations (persisted)
+  public togglePreserveLog(): void {
+    const preserveLog = !this.stateManager.getState().preserveLog;
+    this.stateManager.setState({ preserveLog });
+    this.savePreserveLogToStorage(preserveLog);
+  }
+
+  private async loadPreserveLogFromStorage(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(this.PRESERVE_LOG_KEY);
+      if (result[this.PRESERVE_LOG_KEY] === true) {
+        this.stateManager.setState({ preserveLog: true });
+      }
+    } catch (error) {
+      // Silently fail - preserve log starts disabled
+    }
+  }
+
+  private async savePreserveLogToStorage(preserveLog: boolean): Promise<void> {
+    try {
+      await chrome.storage.local.set({ [this.PRESERVE_LOG_KEY]: preserveLog });
+    } catch (error) {
+      // Silently fail - setting will be lost on reload
+    }
+  }
+
+  // Toggle bypassing the browser cache for the inspected tab (persisted)
+  public async toggleCacheDisabled(): Promise<void> {
+    const cacheDisabled = !this.stateManager.getState().cacheDisabled;
+    this.stateManager.setState({ cacheDisabled });
+    this.saveCacheDisabledToStorage(cacheDisabled);
+    await this.applyCacheDisabled(cacheDisabled);
+  }
+
+  // Network.setCacheDisabled is reset whenever the Network domain is re-enabled
+  private async applyCacheDisabled(cacheDisabled: boolean): Promise<void> {
+    try {
+      await this.sendCommandToAllTargets('Network.setCacheDisabled', { cacheDisabled });
+    } catch (error) {
+      console.warn('[NetworkCapture] Network.setCacheDisabled failed:', error);
+    }
+  }
+
+  private async loadCacheDisabledFromStorage(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(this.CACHE_DISABLED_KEY);
+      if (result[this.CACHE_DISABLED_KEY] === true) {
+        this.stateManager.setState({ cacheDisabled: true });
+        await this.applyCacheDisabled(true);
+      }
+    } catch (error) {
+      // Silently fail - cache stays enabled
+    }
+  }
+
+  private async saveCacheDisabledToStorage(cacheDisabled: boolean): Promise<void> {
+    try {
+      await chrome.storage.local.set({ [this.CACHE_DISABLED_KEY]: cacheDisabled });
+    } catch (error) {
+      // Silently fail - setting will be lost on reload
+    }
+  }
+
+  // Reload the inspected page, optionally bypassing the cache (like Ctrl+Shift+R)
+  public reloadInspectedPage(ignoreCache: boolean = false): void {
+    chrome.devtools.inspectedWindow.reload({ ignoreCache });
+  }
+
   // Public method to ensure debugger is attached (called when panel becomes visible)
   public async ensureAttached(): Promise<void> {
     // Only attempt attachment if not already in progress
@@ -52,6 +147,9 @@ export class NetworkCapture {
       await chrome.debugger.sendCommand({ tabId: this.tabId }, 'Network.enable');
       // If this succeeds, we're already attached and Network domain is enabled
       console.log('[NetworkCapture] Debugger already attached and Network domain enabled');
+      if (this.stateManager.getState().cacheDisabled) {
+        await this.applyCacheDisabled(true);
+      }
       return;
     } catch (error: any) {
       // If Network.enable fails, check the reason
@@ -113,6 +211,7 @@ export class NetworkCapture {
       
       // Reset main frame tracking for fresh capture
       this.mainFrameId = null;
+      this.childTargets.clear();
       
       // Enable Network domain to receive network events
       try {
@@ -141,6 +240,24 @@ export class NetworkCapture {
         }
       }
       
+      // Re-apply disable cache (non-critical)
+      if (this.stateManager.getState().cacheDisabled) {
+        await this.applyCacheDisabled(true);
+      }
+      
+      // Capture out-of-process iframes and workers too (non-critical)
+      await this.enableAutoAttach();
+      
+      // Enable Page domain for DOMContentLoaded/load markers (non-critical)
+      try {
+        await chrome.debugger.sendCommand({ tabId: this.tabId }, 'Page.enable');
+      } catch (pageError) {
+        console.warn('[NetworkCapture] Page.enable failed, waterfall markers unavailable:', pageError);
+      }
+      
+      // Domains enabled by other features are reset on detach, let them re-enable
+      this.attachListeners.forEach(listener => listener());
+      
       // Verify Network domain is enabled by waiting a tick
       // This ensures the domain is fully active before requests start
       await new Promise(resolve => setTimeout(resolve, 0));
@@ -210,11 +327,14 @@ export class NetworkCapture {
     // Clear caches when debugger detaches
     this.clearCaches();
     
-    // Reset main frame tracking for new page
+    // Reset main frame tracking for new page (child sessions end with the main one)
     this.mainFrameId = null;
+    this.childTargets.clear();
     
-    // Clear the requests from the UI state on page navigation/refresh
-    this.stateManager.clearRequests();
+    // Clear the requests from the UI state on page navigation/refresh (unless preserving the log)
+    if (!this.stateManager.getState().preserveLog) {
+      this.stateManager.clearRequests();
+    }
     
     // Reset retry count on detachment
     this.retryCount = 0;
@@ -233,8 +353,12 @@ export class NetworkCapture {
   // Clear pending requests and caches (called on navigation/detachment)
   private clearCaches(): void {
     this.pendingRequests.clear();
+    this.pendingRequestExtraInfo.clear();
+    this.pendingResponseExtraInfo.clear();
+    this.rawRequestHeadersApplied.clear();
     this.responseBodyCache.clear();
     this.fetchingBodies.clear();
+    this.fetchingPostData.clear();
   }
   
   // Clear any existing message
@@ -301,24 +425,159 @@ export class NetworkCapture {
   private handleDebuggerEvent(source: any, method: string, params: any): void {
     if (source.tabId !== this.tabId) return;
 
+    // Events from auto-attached iframes and workers carry their session id
+    const sessionId: string | undefined = source.sessionId;
+    const target = sessionId ? this.childTargets.get(sessionId) : undefined;
+    if (sessionId && !target && method !== 'Target.attachedToTarget') return;
+
     switch (method) {
+      case 'Target.attachedToTarget':
+        this.handleTargetAttached(params);
+        return;
+      case 'Target.detachedFromTarget':
+        this.childTargets.delete(params.sessionId);
+        return;
       case 'Network.requestWillBeSent':
-        this.handleRequestWillBeSent(params);
+        this.handleRequestWillBeSent(params, target);
+        break;
+      case 'Network.requestWillBeSentExtraInfo':
+        this.handleRequestExtraInfo(params);
         break;
       case 'Network.responseReceived':
         this.handleResponseReceived(params);
         break;
+      case 'Network.responseReceivedExtraInfo':
+        this.handleResponseExtraInfo(params);
+        break;
+      case 'Network.dataReceived':
+        this.handleDataReceived(params);
+        break;
+      case 'Network.requestServedFromCache':
+        this.handleServedFromCache(params);
+        break;
+      case 'Network.resourceChangedPriority':
+        this.handlePriorityChanged(params);
+        break;
       case 'Network.loadingFinished':
         this.handleLoadingFinished(params);
         break;
       case 'Network.loadingFailed':
         this.handleLoadingFailed(params);
         break;
+      case 'Network.webSocketCreated':
+        this.handleWebSocketCreated(params, target);
+        break;
+      case 'Network.webSocketWillSendHandshakeRequest':
+        this.handleWebSocketHandshakeRequest(params);
+        break;
+      case 'Network.webSocketHandshakeResponseReceived':
+        this.handleWebSocketHandshakeResponse(params);
+        break;
+      case 'Network.webSocketFrameSent':
+        this.handleWebSocketFrame(params, 'sent');
+        break;
+      case 'Network.webSocketFrameReceived':
+        this.handleWebSocketFrame(params, 'received');
+        break;
+      case 'Network.webSocketFrameError':
+        this.handleWebSocketFrameError(params);
+        break;
+      case 'Network.webSocketClosed':
+        this.handleWebSocketClosed(params);
+        break;
+      case 'Network.eventSourceMessageReceived':
+        this.handleEventSourceMessage(params);
+        break;
+      case 'Page.domContentEventFired':
+        this.handlePageTiming('domContentLoaded', params);
+        break;
+      case 'Page.loadEventFired':
+        this.handlePageTiming('load', params);
+        break;
+    }
+
+    // Forward after our own handling so listeners see the updated request list
+    // (with the iframe/worker session, which commands like Fetch.continueRequest must be answered on)
+    this.eventListeners.forEach(listener => listener(method, params, sessionId));
+  }
+
+  // Ask Chrome to attach to OOPIFs and workers; flatten delivers their events here with a sessionId
+  private async enableAutoAttach(sessionId?: string): Promise<void> {
+    try {
+      await this.sendCommand('Target.setAutoAttach', { autoAttach: true, waitForDebuggerOnStart: true, flatten: true }, sessionId);
+    } catch (error) {
+      console.warn('[NetworkCapture] Target.setAutoAttach failed, iframe/worker requests unavailable:', error);
     }
   }
 
+  // Event: Child target attached (paused until runIfWaitingForDebugger so no early request is missed)
+  private async handleTargetAttached(params: any): Promise<void> {
+    const { sessionId, targetInfo } = params;
+    const captured = CAPTURED_TARGET_TYPES.includes(targetInfo.type);
+
+    try {
+      if (captured) {
+        this.childTargets.set(sessionId, { type: targetInfo.type, url: targetInfo.url, sessionId });
+        await this.sendCommand('Network.enable', undefined, sessionId);
+        if (this.stateManager.getState().cacheDisabled) {
+          await this.sendCommand('Network.setCacheDisabled', { cacheDisabled: true }, sessionId);
+        }
+        // Iframes can start workers and nest further OOPIFs
+        await this.enableAutoAttach(sessionId);
+        this.targetAttachListeners.forEach(listener => listener(sessionId));
+      }
+    } catch (error) {
+      console.warn('[NetworkCapture] Failed to capture target:', targetInfo.type, targetInfo.url, error);
+    } finally {
+      if (params.waitingForDebugger) {
+        this.sendCommand('Runtime.runIfWaitingForDebugger', undefined, sessionId).catch(() => {
+          // Silently fail - target already gone
+        });
+      }
+    }
+  }
+
+  // Subscribe to successful (re-)attachment (returns unsubscribe function)
+  public onAttach(listener: () => void): () => void {
+    this.attachListeners.add(listener);
+    return () => this.attachListeners.delete(listener);
+  }
+
+  // Subscribe to new iframe/worker sessions, to apply per-target settings (returns unsubscribe function)
+  public onTargetAttached(listener: (sessionId: string) => void): () => void {
+    this.targetAttachListeners.add(listener);
+    return () => this.targetAttachListeners.delete(listener);
+  }
+
+  // Subscribe to debugger events for this tab; sessionId is set for iframes/workers (returns unsubscribe function)
+  public onEvent(listener: (method: string, params: any, sessionId?: string) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => this.eventListeners.delete(listener);
+  }
+
+  // Send a CDP command over the shared debugger session (or an iframe/worker session)
+  public sendCommand(method: string, params?: object, sessionId?: string): Promise<any> {
+    return chrome.debugger.sendCommand(this.getDebuggee(sessionId), method, params);
+  }
+
+  // Send a setting to the page and every attached iframe/worker (child failures are ignored)
+  public async sendCommandToAllTargets(method: string, params?: object): Promise<void> {
+    await Promise.all([
+      this.sendCommand(method, params),
+      ...Array.from(this.childTargets.keys()).map(sessionId =>
+        this.sendCommand(method, params, sessionId).catch(() => {
+          // Silently fail - target detached meanwhile
+        })
+      )
+    ]);
+  }
+
+  private getDebuggee(sessionId?: string): DebuggerSession {
+    return sessionId ? { tabId: this.tabId, sessionId } : { tabId: this.tabId };
+  }
+
   // Event: Request is about to be sent
-  private handleRequestWillBeSent(params: any): void {
+  private handleRequestWillBeSent(params: any, target?: RequestTarget): void {
     // Clear any info/success messages when requests start arriving
     // This ensures messages don't persist when network activity begins
     const tableBody = document.getElementById('table-body');
@@ -334,15 +593,28 @@ export class NetworkCapture {
       }
     }
     
+    // Redirects reuse the requestId: record the hop on the existing row instead of adding a duplicate
+    if (params.redirectResponse) {
+      const existing = this.stateManager.getState().requests.find(r => r.id === params.requestId && !r.isSeparator);
+      if (existing) {
+        this.handleRedirect(existing, params);
+        return;
+      }
+    }
+    
     // Detect page navigation/refresh: clear previous requests only when MAIN frame navigates
     // This prevents iframe Document loads from clearing all captured requests
-    if (params.type === 'Document') {
+    if (params.type === 'Document' && !target) {
       const frameId = params.frameId as string;
       // Only clear on main frame navigation, not iframes
       if (!this.mainFrameId || frameId === this.mainFrameId) {
         this.mainFrameId = frameId;
-        this.clearCaches();
-        this.stateManager.clearRequests();
+        if (this.stateManager.getState().preserveLog) {
+          this.addNavigationSeparator(params);
+        } else {
+          this.clearCaches();
+          this.stateManager.clearRequests();
+        }
       }
     }
 
@@ -360,9 +632,16 @@ export class NetworkCapture {
       requestHeaders: params.request.headers,
       responseHeaders: {},
       requestBody: params.request.postData,
-      initiator: params.initiator?.url
+      hasPostData: params.request.hasPostData,
+      priority: params.request.initialPriority,
+      initiator: this.toInitiator(params.initiator),
+      frameId: params.frameId,
+      target: target || this.getFrameTarget(params),
+      mixedContentType: params.request.mixedContentType
     };
 
+    this.applyPendingRequestExtraInfo(request);
+
     // Add to state immediately so it appears in the list
     this.stateManager.addRequest(request);
     
@@ -370,6 +649,159 @@ export class NetworkCapture {
     this.pendingRequests.set(params.requestId, request);
   }
 
+  // Event: Redirect followed - archive the redirect response as a hop, then track the new target
+  private handleRedirect(request: NetworkRequest, params: any): void {
+    const response = params.redirectResponse;
+    const hopEnd = params.timestamp * 1000;
+    
+    const timing = response.timing ? buildRequestTiming(response.timing, request.timestamp) : undefined;
+    if (timing) {
+      timing.receive = Math.max(0, hopEnd - request.timestamp - getTimeToHeaders(timing));
+    }
+    
+    const hop: RedirectHop = {
+      url: request.url,
+      method: request.method,
+      status: response.status,
+      statusText: response.statusText,
+      location: getHeaderValue(response.headers, 'location') || params.request.url,
+      requestHeaders: request.requestHeaders,
+      responseHeaders: this.pendingResponseExtraInfo.get(request.id)?.headers || response.headers,
+      timestamp: request.timestamp,
+      duration: hopEnd - request.timestamp,
+      timing
+    };
+    
+    const chain = request.redirectChain || (request.redirectChain = []);
+    chain.push(hop);
+    
+    // Reset response data: the row now represents the request to the redirect target
+    request.url = params.request.url;
+    request.name = this.extractName(params.request.url);
+    request.method = params.request.method as RequestMethod;
+    request.status = 0;
+    request.statusText = 'Pending';
+    request.timestamp = hopEnd;
+    request.duration = 0;
+    request.timing = undefined;
+    request.size = 0;
+    request.resourceSize = undefined;
+    request.mimeType = undefined;
+    request.protocol = undefined;
+    request.remoteAddress = undefined;
+    request.cacheSource = undefined;
+    request.securityState = undefined;
+    request.securityDetails = undefined;
+    request.mixedContentType = params.request.mixedContentType;
+    request.requestHeaders = params.request.headers;
+    request.responseHeaders = {};
+    request.requestBody = params.request.postData;
+    request.hasPostData = params.request.hasPostData;
+    request.responseBody = undefined;
+    request.requestHeadersText = undefined;
+    request.responseHeadersText = undefined;
+    request.associatedCookies = undefined;
+    request.blockedCookies = undefined;
+    this.responseBodyCache.delete(request.id);
+    this.pendingResponseExtraInfo.delete(request.id);
+    this.rawRequestHeadersApplied.delete(request.id);
+    this.applyPendingRequestExtraInfo(request);
+    
+    this.scheduleUIUpdate(request.id);
+  }
+
+  // Requests from an in-process iframe arrive on the page's session; tag them by frame
+  private getFrameTarget(params: any): RequestTarget | undefined {
+    if (!params.frameId || !this.mainFrameId || params.frameId === this.mainFrameId) {
+      return undefined;
+    }
+    return { type: 'iframe', url: params.documentURL };
+  }
+
+  // Keep the whole initiator; async parent stacks are appended after the synchronous frames
+  private toInitiator(initiator: any): RequestInitiator | undefined {
+    if (!initiator) return undefined;
+
+    const stack: StackFrame[] = [];
+    for (let trace = initiator.stack; trace; trace = trace.parent) {
+      trace.callFrames.forEach((frame: any, index: number) => {
+        stack.push({
+          functionName: frame.functionName,
+          url: frame.url,
+          lineNumber: frame.lineNumber,
+          columnNumber: frame.columnNumber,
+          asyncDescription: index === 0 && trace !== initiator.stack ? (trace.description || 'async') : undefined
+        });
+      });
+    }
+
+    return {
+      type: initiator.type,
+      url: initiator.url,
+      lineNumber: initiator.lineNumber,
+      columnNumber: initiator.columnNumber,
+      requestId: initiator.requestId,
+      stack
+    };
+  }
+
+  private getCacheSource(response: any): CacheSource | undefined {
+    if (response.fromServiceWorker) return 'service-worker';
+    if (response.fromPrefetchCache) return 'prefetch';
+    if (response.fromDiskCache) return 'disk';
+    return undefined;
+  }
+
+  // IPv6 addresses are bracketed so the port stays readable
+  private formatRemoteAddress(response: any): string | undefined {
+    const ip: string | undefined = response.remoteIPAddress;
+    if (!ip) return undefined;
+
+    const host = ip.includes(':') ? `[${ip}]` : ip;
+    return response.remotePort ? `${host}:${response.remotePort}` : host;
+  }
+
+  // Keep what the Security tab shows; the certificate itself stays in the browser
+  private toSecurityDetails(details: any): SecurityDetails | undefined {
+    if (!details) return undefined;
+
+    return {
+      protocol: details.protocol,
+      keyExchange: details.keyExchange,
+      keyExchangeGroup: details.keyExchangeGroup,
+      cipher: details.cipher,
+      mac: details.mac,
+      subjectName: details.subjectName,
+      sanList: details.sanList || [],
+      issuer: details.issuer,
+      validFrom: details.validFrom,
+      validTo: details.validTo,
+      certificateTransparencyCompliance: details.certificateTransparencyCompliance,
+      signedCertificateTimestamps: details.signedCertificateTimestampList?.length || 0
+    };
+  }
+
+  // Mark where a main frame navigation starts when previous requests are kept
+  private addNavigationSeparator(params: any): void {
+    if (this.stateManager.getState().requests.length === 0) return;
+
+    this.stateManager.addRequest({
+      id: `navigation-${params.requestId}-${params.timestamp}`,
+      url: params.request.url,
+      name: `Navigated to ${params.request.url}`,
+      method: params.request.method as RequestMethod,
+      type: ResourceType.DOC,
+      status: 0,
+      statusText: 'Navigation',
+      timestamp: params.timestamp * 1000,
+      duration: 0,
+      size: 0,
+      requestHeaders: {},
+      responseHeaders: {},
+      isSeparator: true
+    });
+  }
+
   // Event: Response headers received
   private handleResponseReceived(params: any): void {
     const state = this.stateManager.getState();
@@ -380,11 +812,121 @@ export class NetworkCapture {
       request.status = params.response.status;
       request.statusText = params.response.statusText;
       request.responseHeaders = params.response.headers;
+      request.mimeType = params.response.mimeType;
+      request.protocol = params.response.protocol;
+      request.remoteAddress = this.formatRemoteAddress(params.response);
+      request.cacheSource = this.getCacheSource(params.response) || request.cacheSource;
+      request.securityState = params.response.securityState;
+      request.securityDetails = this.toSecurityDetails(params.response.securityDetails);
+      request.requestHeadersText = params.response.requestHeadersText;
+      
+      // Raw response headers that arrived first replace the filtered ones
+      const extraInfo = this.pendingResponseExtraInfo.get(params.requestId);
+      if (extraInfo) {
+        this.pendingResponseExtraInfo.delete(params.requestId);
+        this.applyResponseExtraInfo(request, extraInfo);
+      }
+      
+      // Keep the phase breakdown (cached responses have no timing)
+      if (params.response.timing) {
+        request.timing = buildRequestTiming(params.response.timing, request.timestamp);
+      }
       
       // Don't trigger re-render here - wait for loadingFinished for better performance
     }
   }
 
+  // Event: Headers actually sent on the wire (adds Cookie, Host, ... missing from requestWillBeSent)
+  // May fire before or after requestWillBeSent. During a redirect the row is still the previous hop
+  // (pending until the redirect's requestWillBeSent): a second ExtraInfo waits for handleRedirect
+  private handleRequestExtraInfo(params: any): void {
+    const request = this.stateManager.getState().requests.find(r => r.id === params.requestId && !r.isSeparator);
+    
+    if (request && request.status === 0 && !this.rawRequestHeadersApplied.has(request.id)) {
+      this.applyRequestExtraInfo(request, params);
+      this.scheduleUIUpdate(request.id);
+    } else {
+      this.pendingRequestExtraInfo.set(params.requestId, params);
+    }
+  }
+
+  // Event: Raw response headers and rejected Set-Cookie headers
+  private handleResponseExtraInfo(params: any): void {
+    const request = this.stateManager.getState().requests.find(r => r.id === params.requestId && !r.isSeparator);
+    
+    // Before responseReceived this may belong to a redirect response: wait to see which
+    if (request && request.status > 0) {
+      this.applyResponseExtraInfo(request, params);
+      this.scheduleUIUpdate(request.id);
+    } else {
+      this.pendingResponseExtraInfo.set(params.requestId, params);
+    }
+  }
+
+  private applyPendingRequestExtraInfo(request: NetworkRequest): void {
+    const extraInfo = this.pendingRequestExtraInfo.get(request.id);
+    if (extraInfo) {
+      this.pendingRequestExtraInfo.delete(request.id);
+      this.applyRequestExtraInfo(request, extraInfo);
+    }
+  }
+
+  private applyRequestExtraInfo(request: NetworkRequest, params: any): void {
+    this.rawRequestHeadersApplied.add(request.id);
+    request.requestHeaders = params.headers;
+    request.associatedCookies = (params.associatedCookies || []).map((entry: any) => ({
+      name: entry.cookie.name,
+      value: entry.cookie.value,
+      blockedReasons: entry.blockedReasons || [],
+      domain: entry.cookie.domain,
+      path: entry.cookie.path,
+      expires: entry.cookie.session ? -1 : entry.cookie.expires,
+      httpOnly: entry.cookie.httpOnly,
+      secure: entry.cookie.secure,
+      sameSite: entry.cookie.sameSite
+    }));
+  }
+
+  private applyResponseExtraInfo(request: NetworkRequest, params: any): void {
+    request.responseHeaders = params.headers;
+    request.responseHeadersText = params.headersText;
+    request.blockedCookies = (params.blockedCookies || []).map((entry: any) => {
+      // Unparseable lines come without a cookie object
+      const [name, ...value] = (entry.cookieLine as string).split(';')[0].split('=');
+      return {
+        name: entry.cookie?.name ?? name.trim(),
+        value: entry.cookie?.value ?? value.join('='),
+        blockedReasons: entry.blockedReasons || [],
+        cookieLine: entry.cookieLine
+      };
+    });
+  }
+
+  // Event: Body chunk received (dataLength is decoded, unlike the encodedDataLength used for size)
+  private handleDataReceived(params: any): void {
+    const request = this.pendingRequests.get(params.requestId);
+    if (request) {
+      request.resourceSize = (request.resourceSize || 0) + params.dataLength;
+    }
+  }
+
+  // Event: Served from the memory cache (fires before responseReceived)
+  private handleServedFromCache(params: any): void {
+    const request = this.pendingRequests.get(params.requestId);
+    if (request) {
+      request.cacheSource = 'memory';
+    }
+  }
+
+  // Event: Chrome re-prioritized a request (e.g. an image scrolled into view)
+  private handlePriorityChanged(params: any): void {
+    const request = this.pendingRequests.get(params.requestId);
+    if (request) {
+      request.priority = params.newPriority;
+      this.scheduleUIUpdate(params.requestId);
+    }
+  }
+
   // Event: Response body fully loaded
   private handleLoadingFinished(params: any): void {
     const state = this.stateManager.getState();
@@ -396,23 +938,20 @@ export class NetworkCapture {
       // Use Chrome's monotonic timestamp consistently (both timestamps are in the same time system)
       request.duration = (params.timestamp * 1000) - request.timestamp;
       
-      // Batch UI updates using RAF to prevent render thrashing
-      this.pendingUIUpdates.add(params.requestId);
-      
-      if (!this.updateBatchRafId) {
-        this.updateBatchRafId = requestAnimationFrame(() => {
-          // Trigger single render for all completed requests
-          this.stateManager.setState({ requests: [...state.requests] });
-          this.pendingUIUpdates.clear();
-          this.updateBatchRafId = null;
-        });
+      // Whatever remains after the response headers is content download
+      if (request.timing) {
+        request.timing.receive = Math.max(0, request.duration - getTimeToHeaders(request.timing));
       }
       
+      // Batch UI updates using RAF to prevent render thrashing
+      this.scheduleUIUpdate(params.requestId);
+      
       // DON'T fetch response body automatically - only fetch when user views it (lazy loading)
       // This significantly improves performance for pages with many requests
       
       // Clean up pending map
       this.pendingRequests.delete(params.requestId);
+      this.rawRequestHeadersApplied.delete(params.requestId);
     }
   }
 
@@ -423,12 +962,177 @@ export class NetworkCapture {
     
     if (request) {
       request.statusText = params.errorText;
+      request.blockedReason = params.blockedReason;
       // Calculate duration for failed requests too
       request.duration = (params.timestamp * 1000) - request.timestamp;
       this.stateManager.setState({ requests: [...state.requests] });
     }
     
     this.pendingRequests.delete(params.requestId);
+    this.rawRequestHeadersApplied.delete(params.requestId);
+  }
+
+  // Event: WebSocket created (no requestWillBeSent is fired for sockets)
+  private handleWebSocketCreated(params: any, target?: RequestTarget): void {
+    const state = this.stateManager.getState();
+    const existing = state.requests.find(r => r.id === params.requestId);
+    
+    if (existing) {
+      existing.webSocketFrames = existing.webSocketFrames || [];
+      return;
+    }
+
+    const request: NetworkRequest = {
+      id: params.requestId,
+      url: params.url,
+      name: this.extractName(params.url),
+      method: RequestMethod.GET,
+      type: ResourceType.SOCKET,
+      status: 0,
+      statusText: 'Pending',
+      timestamp: 0, // Set from the handshake request, which carries the timestamp
+      duration: 0,
+      size: 0,
+      requestHeaders: {},
+      responseHeaders: {},
+      initiator: this.toInitiator(params.initiator),
+      target,
+      webSocketFrames: []
+    };
+
+    this.stateManager.addRequest(request);
+  }
+
+  // Event: WebSocket handshake request is about to be sent
+  private handleWebSocketHandshakeRequest(params: any): void {
+    const state = this.stateManager.getState();
+    const request = state.requests.find(r => r.id === params.requestId);
+    
+    if (request) {
+      if (!request.timestamp) {
+        request.timestamp = params.timestamp * 1000;
+      }
+      request.requestHeaders = params.request.headers;
+    }
+  }
+
+  // Event: WebSocket handshake response received (connection is open)
+  private handleWebSocketHandshakeResponse(params: any): void {
+    const state = this.stateManager.getState();
+    const request = state.requests.find(r => r.id === params.requestId);
+    
+    if (request) {
+      request.status = params.response.status;
+      request.statusText = params.response.statusText;
+      request.responseHeaders = params.response.headers;
+      this.scheduleUIUpdate(params.requestId);
+    }
+  }
+
+  // Event: WebSocket frame sent or received
+  private handleWebSocketFrame(params: any, direction: 'sent' | 'received'): void {
+    const { opcode, payloadData } = params.response;
+    this.addWebSocketFrame(params.requestId, {
+      direction,
+      opcode,
+      payload: payloadData,
+      size: this.getPayloadSize(opcode, payloadData),
+      timestamp: params.timestamp * 1000
+    });
+  }
+
+  // Event: WebSocket frame error (recorded as a frame so it shows in the message list)
+  private handleWebSocketFrameError(params: any): void {
+    this.addWebSocketFrame(params.requestId, {
+      direction: 'error',
+      opcode: 1,
+      payload: params.errorMessage,
+      size: 0,
+      timestamp: params.timestamp * 1000
+    });
+  }
+
+  // Event: WebSocket closed
+  private handleWebSocketClosed(params: any): void {
+    const state = this.stateManager.getState();
+    const request = state.requests.find(r => r.id === params.requestId);
+    
+    if (request) {
+      request.statusText = 'Closed';
+      request.duration = (params.timestamp * 1000) - request.timestamp;
+      this.scheduleUIUpdate(params.requestId);
+    }
+  }
+
+  // Append frame to its socket, dropping the oldest frames past the limit
+  private addWebSocketFrame(requestId: string, frame: WebSocketFrame): void {
+    const state = this.stateManager.getState();
+    const request = state.requests.find(r => r.id === requestId);
+    if (!request) return;
+
+    const frames = request.webSocketFrames || (request.webSocketFrames = []);
+    frames.push(frame);
+    if (frames.length > this.MAX_MESSAGES_PER_CONNECTION) {
+      const dropped = frames.splice(0, frames.length - this.MAX_MESSAGES_PER_CONNECTION).length;
+      request.droppedMessages = (request.droppedMessages || 0) + dropped;
+    }
+
+    this.scheduleUIUpdate(requestId);
+  }
+
+  // Event: Server-Sent Event received on an EventSource connection
+  private handleEventSourceMessage(params: any): void {
+    const state = this.stateManager.getState();
+    const request = state.requests.find(r => r.id === params.requestId);
+    if (!request) return;
+
+    const message: EventSourceMessage = {
+      eventName: params.eventName || 'message',
+      eventId: params.eventId || '',
+      data: params.data,
+      timestamp: params.timestamp * 1000
+    };
+
+    const messages = request.eventSourceMessages || (request.eventSourceMessages = []);
+    messages.push(message);
+    if (messages.length > this.MAX_MESSAGES_PER_CONNECTION) {
+      const dropped = messages.splice(0, messages.length - this.MAX_MESSAGES_PER_CONNECTION).length;
+      request.droppedMessages = (request.droppedMessages || 0) + dropped;
+    }
+
+    this.scheduleUIUpdate(params.requestId);
+  }
+
+  // Event: Page lifecycle marker (DOMContentLoaded / load) for the waterfall
+  private handlePageTiming(marker: 'domContentLoaded' | 'load', params: any): void {
+    // Mutate in place so two markers fired in the same frame don't overwrite each other
+    const state = this.stateManager.getState();
+    state.pageTimings[marker] = params.timestamp * 1000;
+    this.stateManager.setState({ pageTimings: { ...state.pageTimings } });
+  }
+
+  // Payload size in bytes (binary frames arrive base64-encoded)
+  private getPayloadSize(opcode: number, payload: string): number {
+    if (!payload) return 0;
+    if (opcode === 2) {
+      return base64ByteLength(payload);
+    }
+    return new TextEncoder().encode(payload).length;
+  }
+
+  // Batch UI updates using RAF to prevent render thrashing
+  private scheduleUIUpdate(requestId: string): void {
+    this.pendingUIUpdates.add(requestId);
+    
+    if (!this.updateBatchRafId) {
+      this.updateBatchRafId = requestAnimationFrame(() => {
+        // Trigger single render for all updated requests
+        const state = this.stateManager.getState();
+        this.stateManager.setState({ requests: [...state.requests] });
+        this.pendingUIUpdates.clear();
+        this.updateBatchRafId = null;
+      });
+    }
   }
 
   // Fetch response body content (lazy - only when requested)
@@ -455,20 +1159,28 @@ export class NetworkCapture {
     this.fetchingBodies.add(requestId);
 
     try {
+      // Bodies of iframe/worker requests live in that target's session
+      const request = this.stateManager.getState().requests.find(r => r.id === requestId);
       const response = await chrome.debugger.sendCommand(
-        { tabId: this.tabId },
+        this.getDebuggee(request?.target?.sessionId),
         'Network.getResponseBody',
         { requestId }
-      );
+      ) as { body: string; base64Encoded: boolean };
       
       let body = null;
-      if (response.body) {
+      const mimeType = request?.mimeType || 'application/octet-stream';
+      if (response.base64Encoded && !isTextMimeType(mimeType)) {
+        // Images, fonts, protobuf, ...: keep the bytes, JSON.parse would only produce garbage
+        const binary: BinaryBody = { encoding: 'base64', data: response.body, mimeType, size: base64ByteLength(response.body) };
+        body = binary;
+      } else if (response.body) {
+        const text = response.base64Encoded ? fromBase64(response.body) : response.body;
         try {
           // Try to parse as JSON
-          body = JSON.parse(response.body);
+          body = JSON.parse(text);
         } catch {
           // Store as plain text if not JSON
-          body = response.body;
+          body = text;
         }
       }
 
@@ -484,6 +1196,41 @@ export class NetworkCapture {
     }
   }
 
+  // Fetch request body content Chrome left out of requestWillBeSent (large or multipart uploads)
+  public async fetchRequestBodyLazy(request: NetworkRequest): Promise<void> {
+    if (request.requestBody !== undefined || !request.hasPostData) {
+      return;
+    }
+
+    // Share the in-flight fetch when copy and export ask at the same time
+    let pending = this.fetchingPostData.get(request.id);
+    if (!pending) {
+      pending = (async () => {
+        try {
+          const response = await chrome.debugger.sendCommand(
+            this.getDebuggee(request.target?.sessionId),
+            'Network.getRequestPostData',
+            { requestId: request.id }
+          ) as { postData?: string };
+          request.requestBody = response.postData;
+        } catch (error) {
+          // Silently fail - body is gone once the page navigates or the request is evicted
+        } finally {
+          this.fetchingPostData.delete(request.id);
+        }
+      })();
+      this.fetchingPostData.set(request.id, pending);
+    }
+    await pending;
+  }
+
+  // Fill in missing request bodies before exporting several requests at once
+  public async fetchRequestBodies(requests: NetworkRequest[]): Promise<void> {
+    for (const request of requests) {
+      await this.fetchRequestBodyLazy(request);
+    }
+  }
+
   // Map Chrome resource type to our enum
   private mapResourceType(type: string): ResourceType {
     const typeMap: Record<string, ResourceType> = {
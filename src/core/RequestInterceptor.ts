@@ -0,0 +1,429 @@
+import { Breakpoint, InterceptionStage, MockRule, NetworkRequest } from '../types';
+import { StateManager } from './StateManager';
+import { NetworkCapture } from './NetworkCapture';
+import { CommandRegistry } from './CommandRegistry';
+import { MockRuleManager } from './MockRuleManager';
+import { RequestEditor } from '../components/RequestEditor';
+import { formatHeaderLines, parseHeaderLines, toHeaderEntries, fromHeaderEntries, getHeaderValue } from '../utils/headers';
+import { toBase64, fromBase64 } from '../utils/encoding';
+import { matchesUrlPattern, getEndpointPattern } from '../utils/urlPattern';
+import { showToast } from '../utils/toast';
+
+// Request held by the Fetch domain (Fetch.requestPaused params we care about)
+interface PausedRequest {
+  fetchId: string;                         // Fetch domain id, used to continue/abort
+  networkId?: string;                      // Matches NetworkRequest.id
+  stage: InterceptionStage;
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  postData?: string;
+  responseStatusCode?: number;
+  responseHeaders?: Record<string, string>;
+  sessionId?: string;                      // Iframe/worker session it was paused on (undefined = page)
+}
+
+const STORAGE_KEY = 'vim-network-breakpoints';
+
+// Owns the Fetch domain: serves mock rules and pauses requests matching breakpoints for editing
+export class RequestInterceptor {
+  private stateManager: StateManager;
+  private networkCapture: NetworkCapture;
+  private editor: RequestEditor;
+  private mockRules: MockRuleManager;
+  private breakpoints: Breakpoint[] = [];
+  private paused: Map<string, PausedRequest> = new Map(); // Keyed by getPausedKey (fetch ids are per session)
+  private mockedIds: Set<string> = new Set(); // Network ids served by a mock rule before their row existed
+  private fetchEnabled: boolean = false;
+
+  constructor(stateManager: StateManager, networkCapture: NetworkCapture, editor: RequestEditor, mockRules: MockRuleManager, commands: CommandRegistry) {
+    this.stateManager = stateManager;
+    this.networkCapture = networkCapture;
+    this.editor = editor;
+    this.mockRules = mockRules;
+
+    // Fetch domain state is lost on detach: forget held requests and re-enable interception
+    this.networkCapture.onAttach(() => {
+      this.paused.clear();
+      this.mockedIds.clear();
+      this.fetchEnabled = false;
+      this.syncInterception();
+    });
+    // Iframes and workers in their own process have their own Fetch domain
+    this.networkCapture.onTargetAttached((sessionId) => this.syncInterception(sessionId));
+    this.networkCapture.onEvent(this.handleEvent.bind(this));
+    this.mockRules.onChange(() => this.syncInterception());
+
+    this.registerCommands(commands);
+    this.loadBreakpointsFromStorage();
+  }
+
+  private registerCommands(commands: CommandRegistry): void {
+    commands.register('break', 'Pause requests matching a URL pattern: :break <pattern> [request|response|both]', (args) => {
+      const [urlPattern, stage = 'request'] = args;
+      if (!urlPattern || !['request', 'response', 'both'].includes(stage)) {
+        showToast('Usage: :break <pattern> [request|response|both]');
+        return;
+      }
+      const stages: InterceptionStage[] = stage === 'both' ? ['request', 'response'] : [stage as InterceptionStage];
+      stages.forEach(s => this.addBreakpoint({ urlPattern, stage: s }));
+      showToast(`Breakpoint added: ${urlPattern} (${stage})`);
+    });
+
+    commands.register('unbreak', 'Remove breakpoints for a pattern, or all without arguments', (args) => {
+      const removed = this.removeBreakpoints(args[0]);
+      showToast(removed > 0 ? `Removed ${removed} breakpoint(s)` : 'No matching breakpoints');
+    });
+
+    commands.register('breaks', 'List breakpoints', () => {
+      showToast(this.breakpoints.length > 0
+        ? this.breakpoints.map(b => `${b.urlPattern} (${b.stage})`).join(', ')
+        : 'No breakpoints');
+    });
+
+    commands.register('continue', 'Continue all paused requests unchanged', async () => {
+      const keys = Array.from(this.paused.keys());
+      await Promise.all(keys.map(key => this.continuePaused(key)));
+      showToast(`Continued ${keys.length} request(s)`);
+    });
+
+    commands.register('abort', 'Abort all paused requests', async () => {
+      const keys = Array.from(this.paused.keys());
+      await Promise.all(keys.map(key => this.abortPaused(key)));
+      showToast(`Aborted ${keys.length} request(s)`);
+    });
+  }
+
+  // Toggle a request-stage breakpoint on the endpoint of a URL (query string ignored)
+  public toggleBreakpoint(url: string): void {
+    const urlPattern = getEndpointPattern(url);
+
+    if (this.breakpoints.some(b => b.urlPattern === urlPattern)) {
+      this.removeBreakpoints(urlPattern);
+      showToast(`Breakpoint removed: ${urlPattern}`);
+    } else {
+      this.addBreakpoint({ urlPattern, stage: 'request' });
+      showToast(`Breakpoint added: ${urlPattern}`);
+    }
+  }
+
+  private addBreakpoint(breakpoint: Breakpoint): void {
+    const exists = this.breakpoints.some(b => b.urlPattern === breakpoint.urlPattern && b.stage === breakpoint.stage);
+    if (exists) return;
+
+    this.breakpoints.push(breakpoint);
+    this.saveBreakpointsToStorage();
+    this.syncInterception();
+  }
+
+  // Returns the number of breakpoints removed
+  private removeBreakpoints(urlPattern?: string): number {
+    const before = this.breakpoints.length;
+    this.breakpoints = urlPattern ? this.breakpoints.filter(b => b.urlPattern !== urlPattern) : [];
+
+    const removed = before - this.breakpoints.length;
+    if (removed > 0) {
+      this.saveBreakpointsToStorage();
+      this.syncInterception();
+    }
+    return removed;
+  }
+
+  // Push breakpoints and mock rule patterns to the Fetch domain of one iframe/worker session, or of
+  // every target (disabling it releases held requests)
+  private async syncInterception(sessionId?: string): Promise<void> {
+    const patterns = [
+      ...this.breakpoints.map(b => ({
+        urlPattern: b.urlPattern,
+        requestStage: b.stage === 'request' ? 'Request' : 'Response'
+      })),
+      ...this.mockRules.getInterceptPatterns().map(urlPattern => ({ urlPattern, requestStage: 'Request' }))
+    ];
+
+    if (sessionId) {
+      if (patterns.length > 0) {
+        this.networkCapture.sendCommand('Fetch.enable', { patterns }, sessionId).catch(() => {
+          // Silently fail - target detached meanwhile, or has no Fetch domain (dedicated workers)
+        });
+      }
+      return;
+    }
+
+    try {
+      if (patterns.length === 0) {
+        if (this.fetchEnabled) {
+          await this.networkCapture.sendCommandToAllTargets('Fetch.disable');
+          this.fetchEnabled = false;
+          this.releaseAll();
+        }
+        return;
+      }
+
+      await this.networkCapture.sendCommandToAllTargets('Fetch.enable', { patterns });
+      this.fetchEnabled = true;
+    } catch (error) {
+      // Not attached yet - onAttach syncs again once the debugger is ready
+      console.warn('[RequestInterceptor] Failed to update interception:', error);
+    }
+  }
+
+  private handleEvent(method: string, params: any, sessionId?: string): void {
+    switch (method) {
+      case 'Fetch.requestPaused':
+        this.handleRequestPaused(params, sessionId);
+        break;
+      case 'Network.requestWillBeSent':
+        // Paused or mocked before its row existed: mark it now
+        this.paused.forEach(paused => {
+          if (paused.networkId === params.requestId) {
+            this.updateRequest(params.requestId, { paused: paused.stage });
+          }
+        });
+        if (this.mockedIds.delete(params.requestId)) {
+          this.updateRequest(params.requestId, { isMocked: true });
+        }
+        break;
+    }
+  }
+
+  // Event: Request held by the Fetch domain (responseStatusCode is only set at response stage)
+  private handleRequestPaused(params: any, sessionId?: string): void {
+    const stage: InterceptionStage = params.responseStatusCode !== undefined || params.responseErrorReason !== undefined
+      ? 'response'
+      : 'request';
+
+    // Mock rules win over breakpoints; mock patterns can also catch requests no breakpoint wants
+    if (stage === 'request') {
+      const rule = this.mockRules.findMatch(params.request.url, params.request.method);
+      if (rule) {
+        this.fulfillWithMock(params.requestId, params.networkId, rule, sessionId);
+        return;
+      }
+      if (!this.breakpoints.some(b => b.stage === 'request' && matchesUrlPattern(params.request.url, b.urlPattern))) {
+        this.networkCapture.sendCommand('Fetch.continueRequest', { requestId: params.requestId }, sessionId).catch(() => {
+          // Request was cancelled meanwhile
+        });
+        return;
+      }
+    }
+
+    const paused: PausedRequest = {
+      fetchId: params.requestId,
+      networkId: params.networkId,
+      stage,
+      url: params.request.url,
+      method: params.request.method,
+      headers: params.request.headers,
+      postData: params.request.postData,
+      responseStatusCode: params.responseStatusCode,
+      responseHeaders: params.responseHeaders ? fromHeaderEntries(params.responseHeaders) : undefined,
+      sessionId
+    };
+
+    this.paused.set(this.getPausedKey(paused), paused);
+    if (paused.networkId) {
+      this.updateRequest(paused.networkId, { paused: stage });
+    }
+
+    showToast(`Paused ${paused.method} ${paused.url} (${stage})`);
+  }
+
+  // Open the editor for the held request behind a table row (returns false if it isn't paused)
+  public editPausedRequest(request: NetworkRequest): boolean {
+    const paused = Array.from(this.paused.values()).find(p => p.networkId === request.id);
+    if (!paused) return false;
+
+    if (paused.stage === 'request') {
+      this.openRequestEditor(paused);
+    } else {
+      this.openResponseEditor(paused);
+    }
+    return true;
+  }
+
+  private openRequestEditor(paused: PausedRequest): void {
+    const original = {
+      url: paused.url,
+      method: paused.method,
+      headers: formatHeaderLines(paused.headers),
+      body: paused.postData || ''
+    };
+
+    this.editor.open({
+      title: `Paused request: ${paused.method} ${paused.url}`,
+      fields: [
+        { name: 'url', label: 'URL', value: original.url },
+        { name: 'method', label: 'Method', value: original.method },
+        { name: 'headers', label: 'Headers', value: original.headers, multiline: true },
+        { name: 'body', label: 'Body', value: original.body, multiline: true }
+      ],
+      submitLabel: 'continue',
+      onSubmit: (values) => {
+        // Only send overrides that changed (headers override replaces all headers)
+        const overrides: Record<string, unknown> = {};
+        if (values.url !== original.url) overrides.url = values.url;
+        if (values.method !== original.method) overrides.method = values.method.trim().toUpperCase();
+        if (values.headers !== original.headers) overrides.headers = toHeaderEntries(parseHeaderLines(values.headers));
+        if (values.body !== original.body) overrides.postData = toBase64(values.body);
+
+        this.continuePaused(this.getPausedKey(paused), overrides);
+      },
+      onAbort: () => this.abortPaused(this.getPausedKey(paused))
+    });
+  }
+
+  private async openResponseEditor(paused: PausedRequest): Promise<void> {
+    // Raw body as the Fetch domain expects it back (base64)
+    let rawBody = '';
+    let bodyText = '';
+    let isBinary = false;
+    try {
+      const response = await this.networkCapture.sendCommand('Fetch.getResponseBody', { requestId: paused.fetchId }, paused.sessionId);
+      rawBody = response.base64Encoded ? response.body : toBase64(response.body);
+      isBinary = response.base64Encoded && !this.isTextual(paused.responseHeaders || {});
+      bodyText = isBinary ? '' : (response.base64Encoded ? fromBase64(response.body) : response.body);
+    } catch (error) {
+      // Redirects and failed responses have no body
+      console.warn('[RequestInterceptor] Failed to read paused response body:', error);
+    }
+
+    const original = {
+      status: String(paused.responseStatusCode ?? ''),
+      headers: formatHeaderLines(paused.responseHeaders || {}),
+      body: bodyText
+    };
+
+    this.editor.open({
+      title: `Paused response: ${paused.method} ${paused.url}`,
+      fields: [
+        { name: 'status', label: 'Status', value: original.status },
+        { name: 'headers', label: 'Headers', value: original.headers, multiline: true },
+        isBinary
+          ? { name: 'body', label: 'Body', value: '(binary body, not editable)', readOnly: true }
+          : { name: 'body', label: 'Body', value: original.body, multiline: true }
+      ],
+      submitLabel: 'continue',
+      onSubmit: (values) => {
+        const unchanged = values.status === original.status &&
+                          values.headers === original.headers &&
+                          (isBinary || values.body === original.body);
+        if (unchanged) {
+          this.continuePaused(this.getPausedKey(paused));
+          return;
+        }
+
+        const responseCode = parseInt(values.status, 10);
+        if (isNaN(responseCode) || responseCode < 100 || responseCode > 599) {
+          showToast('Status must be a number between 100 and 599');
+          return false;
+        }
+
+        this.fulfillPaused(this.getPausedKey(paused), {
+          responseCode,
+          responseHeaders: toHeaderEntries(parseHeaderLines(values.headers)),
+          body: isBinary || values.body === original.body ? rawBody : toBase64(values.body)
+        });
+      },
+      onAbort: () => this.abortPaused(this.getPausedKey(paused))
+    });
+  }
+
+  private async fulfillWithMock(fetchId: string, networkId: string | undefined, rule: MockRule, sessionId?: string): Promise<void> {
+    if (networkId && !this.updateRequest(networkId, { isMocked: true })) {
+      this.mockedIds.add(networkId);
+    }
+
+    try {
+      await this.networkCapture.sendCommand('Fetch.fulfillRequest', {
+        requestId: fetchId,
+        responseCode: rule.status,
+        responseHeaders: toHeaderEntries(rule.headers),
+        body: toBase64(rule.body)
+      }, sessionId);
+    } catch (error: any) {
+      showToast(`Failed to serve mock: ${error.message || error}`);
+    }
+  }
+
+  private async continuePaused(key: string, overrides: Record<string, unknown> = {}): Promise<void> {
+    await this.resolvePaused(key, 'Fetch.continueRequest', overrides);
+  }
+
+  private async fulfillPaused(key: string, response: Record<string, unknown>): Promise<void> {
+    await this.resolvePaused(key, 'Fetch.fulfillRequest', response);
+  }
+
+  private async abortPaused(key: string): Promise<void> {
+    await this.resolvePaused(key, 'Fetch.failRequest', { errorReason: 'Aborted' });
+  }
+
+  // Send the command that releases a held request (on the session it was paused on) and clear its paused state
+  private async resolvePaused(key: string, method: string, params: object): Promise<void> {
+    const paused = this.paused.get(key);
+    if (!paused) return;
+
+    this.paused.delete(key);
+    if (paused.networkId) {
+      this.updateRequest(paused.networkId, { paused: undefined });
+    }
+
+    try {
+      await this.networkCapture.sendCommand(method, { requestId: paused.fetchId, ...params }, paused.sessionId);
+    } catch (error: any) {
+      // The page may have cancelled the request (e.g. navigation) while it was held
+      showToast(`Failed to release request: ${error.message || error}`);
+    }
+  }
+
+  private getPausedKey(paused: PausedRequest): string {
+    return paused.sessionId ? `${paused.sessionId}:${paused.fetchId}` : paused.fetchId;
+  }
+
+  // Forget held requests after Fetch.disable (Chrome continues them)
+  private releaseAll(): void {
+    this.paused.forEach(paused => {
+      if (paused.networkId) {
+        this.updateRequest(paused.networkId, { paused: undefined });
+      }
+    });
+    this.paused.clear();
+  }
+
+  // Apply changes to a table row (returns false if the row doesn't exist yet)
+  private updateRequest(networkId: string, changes: Partial<NetworkRequest>): boolean {
+    const state = this.stateManager.getState();
+    const request = state.requests.find(r => r.id === networkId);
+    if (!request) return false;
+
+    Object.assign(request, changes);
+    this.stateManager.setState({ requests: [...state.requests] });
+    return true;
+  }
+
+  private isTextual(headers: Record<string, string>): boolean {
+    const contentType = getHeaderValue(headers, 'content-type') || '';
+    return /^text\/|json|xml|javascript|x-www-form-urlencoded/i.test(contentType);
+  }
+
+  private async loadBreakpointsFromStorage(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEY);
+      const stored = result[STORAGE_KEY] as Breakpoint[] | undefined;
+
+      if (stored && Array.isArray(stored)) {
+        this.breakpoints = stored;
+        this.syncInterception();
+      }
+    } catch (error) {
+      // Silently fail - start without breakpoints
+    }
+  }
+
+  private async saveBreakpointsToStorage(): Promise<void> {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEY]: this.breakpoints });
+    } catch (error) {
+      // Silently fail - breakpoints will be lost on reload
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { NetworkRequest } from '../types';
+import { StateManager } from './StateManager';
+import { NetworkCapture } from './NetworkCapture';
+import { CommandRegistry } from './CommandRegistry';
+import { RequestEditor } from '../components/RequestEditor';
+import { formatHeaderLines, parseHeaderLines } from '../utils/headers';
+import { safeStringify } from '../utils/safeJson';
+import { showToast } from '../utils/toast';
+
+// Headers fetch() refuses to set or sets itself (pseudo-headers like :authority are dropped too)
+const FORBIDDEN_HEADERS = [
+  'accept-encoding', 'connection', 'content-length', 'cookie', 'host', 'keep-alive',
+  'origin', 'referer', 'te', 'trailer', 'transfer-encoding', 'upgrade', 'user-agent'
+];
+
+// A replay not seen on the network by then is dropped so it can't link a later page request
+const REPLAY_LINK_TIMEOUT = 5000;
+
+// Resent request waiting for its Network.requestWillBeSent so the new row can be linked
+interface PendingReplay {
+  originalId: string;
+  url: string;
+  method: string;
+}
+
+// Resends captured requests from the inspected page (so cookies and origin apply)
+export class RequestReplayer {
+  private stateManager: StateManager;
+  private networkCapture: NetworkCapture;
+  private editor: RequestEditor;
+  private pendingReplays: PendingReplay[] = [];
+
+  constructor(stateManager: StateManager, networkCapture: NetworkCapture, editor: RequestEditor, commands: CommandRegistry) {
+    this.stateManager = stateManager;
+    this.networkCapture = networkCapture;
+    this.editor = editor;
+
+    // Replays run in the page itself, so only its own requests can be one
+    networkCapture.onEvent((method, params, sessionId) => {
+      if (method === 'Network.requestWillBeSent' && !sessionId) {
+        this.linkReplay(params);
+      }
+    });
+
+    commands.register('resend', 'Edit and resend the selected request', () => {
+      const state = this.stateManager.getState();
+      const request = this.stateManager.getFilteredRequests()[state.selectedIndex];
+      if (request) {
+        this.openResendEditor(request);
+      }
+    });
+  }
+
+  // Open the editor pre-filled from a captured request
+  public async openResendEditor(request: NetworkRequest): Promise<void> {
+    await this.networkCapture.fetchRequestBodyLazy(request);
+    const body = request.requestBody === undefined || request.requestBody === null
+      ? ''
+      : (typeof request.requestBody === 'string' ? request.requestBody : safeStringify(request.requestBody, 2));
+
+    this.editor.open({
+      title: `Resend: ${request.method} ${request.url}`,
+      fields: [
+        { name: 'url', label: 'URL', value: request.url },
+        { name: 'method', label: 'Method', value: request.method },
+        { name: 'headers', label: 'Headers', value: formatHeaderLines(this.getSendableHeaders(request.requestHeaders)), multiline: true },
+        { name: 'body', label: 'Body', value: body, multiline: true }
+      ],
+      submitLabel: 'send',
+      onSubmit: (values) => {
+        const method = values.method.trim().toUpperCase();
+        if ((method === 'GET' || method === 'HEAD') && values.body) {
+          showToast(`${method} requests cannot have a body`);
+          return false;
+        }
+
+        this.send(request.id, values.url.trim(), method, this.getSendableHeaders(parseHeaderLines(values.headers)), values.body);
+      }
+    });
+  }
+
+  // Run fetch() in the inspected page; the request shows up as a new row via the debugger
+  private async send(originalId: string, url: string, method: string, headers: Record<string, string>, body: string): Promise<void> {
+    const init = {
+      method,
+      headers,
+      body: body || undefined,
+      credentials: 'include',
+      mode: 'cors'
+    };
+    // Awaited so rejections (invalid URL, CSP, mixed content, network errors) come back as exceptionDetails
+    const expression = `fetch(${JSON.stringify(url)}, ${JSON.stringify(init)}).then(() => undefined)`;
+
+    const replay: PendingReplay = { originalId, url, method };
+    this.pendingReplays.push(replay);
+    setTimeout(() => this.dropReplay(replay), REPLAY_LINK_TIMEOUT);
+
+    try {
+      const result = await this.networkCapture.sendCommand('Runtime.evaluate', { expression, awaitPromise: true });
+      if (result?.exceptionDetails) {
+        this.dropReplay(replay);
+        const details = result.exceptionDetails;
+        showToast(`Resend failed: ${(details.exception?.description || details.text).split('\n')[0]}`);
+      }
+    } catch (error: any) {
+      this.dropReplay(replay);
+      showToast(`Resend failed: ${error.message || error}`);
+    }
+  }
+
+  private dropReplay(replay: PendingReplay): void {
+    this.pendingReplays = this.pendingReplays.filter(p => p !== replay);
+  }
+
+  // Event: link the first new request matching a pending replay to its original
+  private linkReplay(params: any): void {
+    const index = this.pendingReplays.findIndex(p =>
+      p.url === params.request.url && p.method === params.request.method
+    );
+    if (index === -1) return;
+
+    const [replay] = this.pendingReplays.splice(index, 1);
+    const state = this.stateManager.getState();
+    const request = state.requests.find(r => r.id === params.requestId);
+    if (request) {
+      request.replayOf = replay.originalId;
+      this.stateManager.setState({ requests: [...state.requests] });
+    }
+  }
+
+  private getSendableHeaders(headers: Record<string, string>): Record<string, string> {
+    const sendable: Record<string, string> = {};
+    Object.entries(headers).forEach(([name, value]) => {
+      const lowerName = name.toLowerCase();
+      if (!name.startsWith(':') && !FORBIDDEN_HEADERS.includes(lowerName) && !lowerName.startsWith('sec-')) {
+        sendable[name] = value;
+      }
+    });
+    return sendable;
+  }
+}
@@ -0,0 +1,76 @@
+import { RequestSort, SortColumn, SortDirection } from '../types';
+import { StateManager } from './StateManager';
+import { CommandRegistry } from './CommandRegistry';
+import { COLUMNS } from '../utils/columns';
+import { SORT_COLUMNS, getDefaultSortDirection, isSortColumn } from '../utils/sort';
+import { showToast } from '../utils/toast';
+
+// Session storage: the sort survives reopening DevTools but not a browser restart
+const STORAGE_KEY = 'vim-network-sort';
+
+// Sorts the request list by a column (state.sort); driven by :sort and the s{key} shortcuts
+export class SortManager {
+  private stateManager: StateManager;
+
+  constructor(stateManager: StateManager, commands: CommandRegistry) {
+    this.stateManager = stateManager;
+
+    this.registerCommands(commands);
+    this.loadSortFromStorage();
+  }
+
+  private registerCommands(commands: CommandRegistry): void {
+    commands.register('sort', `Sort requests: :sort <${SORT_COLUMNS.join('|')}> [asc|desc], or :sort off`, (args) => {
+      const [column, direction] = args;
+      if (column === 'off') {
+        this.clear();
+      } else if (column && isSortColumn(column) && (!direction || direction === 'asc' || direction === 'desc')) {
+        this.setSort({ column, direction: (direction as SortDirection | undefined) || getDefaultSortDirection(column) });
+      } else {
+        showToast(`Usage: :sort <${SORT_COLUMNS.join('|')}> [asc|desc] or :sort off`);
+      }
+    });
+  }
+
+  // Sort by the column, or reverse the order if the list is already sorted by it
+  public sortBy(column: SortColumn): void {
+    const current = this.stateManager.getState().sort;
+    const direction = current?.column === column
+      ? (current.direction === 'asc' ? 'desc' : 'asc')
+      : getDefaultSortDirection(column);
+    this.setSort({ column, direction });
+  }
+
+  public clear(): void {
+    this.stateManager.setSort(null);
+    this.saveSortToStorage(null);
+    showToast('Capture order');
+  }
+
+  private setSort(sort: RequestSort): void {
+    this.stateManager.setSort(sort);
+    this.saveSortToStorage(sort);
+    showToast(`Sorted by ${COLUMNS[sort.column].label} ${sort.direction === 'asc' ? '▲' : '▼'}`);
+  }
+
+  private async loadSortFromStorage(): Promise<void> {
+    try {
+      const result = await chrome.storage.session.get(STORAGE_KEY);
+      const stored = result[STORAGE_KEY] as RequestSort | undefined;
+
+      if (stored && isSortColumn(stored.column)) {
+        this.stateManager.setSort(stored);
+      }
+    } catch (error) {
+      // Silently fail - keep capture order
+    }
+  }
+
+  private async saveSortToStorage(sort: RequestSort | null): Promise<void> {
+    try {
+      await chrome.storage.session.set({ [STORAGE_KEY]: sort });
+    } catch (error) {
+      // Silently fail - sort will be reset when DevTools reopens
+    }
+  }
+}
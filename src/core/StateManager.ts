@@ -1,6 +1,11 @@
 import Fuse from 'fuse.js';
-import { AppState, AppMode, NetworkRequest, InspectFocus } from '../types';
+import { AppState, AppMode, NetworkRequest, InspectFocus, RequestSort } from '../types';
 import { createFuseIndex } from '../utils/fuzzySearch';
+import { TreeNode, findInitiatorParents, orderAsTree } from '../utils/initiatorTree';
+import { isInsecureRequest } from '../utils/security';
+import { DEFAULT_COLUMNS } from '../utils/columns';
+import { sortRequests } from '../utils/sort';
+import { FilterQuery, matchesFilterQuery, parseFilterQuery } from '../utils/filterQuery';
 
 export class StateManager {
   private state: AppState;
@@ -14,22 +19,30 @@ export class StateManager {
   // Memoization cache for filtered requests
   private filteredRequestsCache: {
     requests: NetworkRequest[] | null;
+    lastRequests: NetworkRequest[] | null; // Replaced on setState({ requests }) so in-place updates re-render
     lastRequestsLength: number;
     lastSearchQuery: string;
     lastMethodsSize: number;
     lastTypesSize: number;
   } = {
     requests: null,
+    lastRequests: null,
     lastRequestsLength: 0,
     lastSearchQuery: '',
     lastMethodsSize: 0,
     lastTypesSize: 0
   };
   
+  // Depth/parent of each row while the tree view is active (rebuilt with the filtered list)
+  private treeNodes: Map<string, TreeNode> = new Map();
+  
   // Fuse.js index for fuzzy search
   private fuseIndex: Fuse<NetworkRequest> | null = null;
   private lastFuseIndexLength: number = 0;
 
+  // Parsed searchQuery (re-parsed when the query changes)
+  private filterQuery: FilterQuery = parseFilterQuery('');
+
   constructor() {
     // Initialize with empty state
     this.state = {
@@ -43,8 +56,12 @@ export class StateManager {
       },
       jsonExpanded: new Map(),
       previewTab: 'headers',
+      requestView: 'flat',
+      collapsedTreeNodes: new Set(),
       filterSelectedIndex: 0,
       filterOrder: ['fetch/xhr', 'document', 'stylesheet', 'script', 'font', 'image', 'media', 'manifest', 'websocket', 'wasm', 'other'],
+      columns: DEFAULT_COLUMNS,
+      sort: null,
       inspectFocus: InspectFocus.HEADERS,
       inspectScrollPosition: 0,
       inspectSearchQuery: '',
@@ -53,7 +70,19 @@ export class StateManager {
       headersSelectedIndex: 0,
       isInspectExpanded: false,
       jsonSelectedIndex: 0,
-      flattenedJsonNodes: []
+      flattenedJsonNodes: [],
+      messagesSelectedIndex: 0,
+      cookiesSelectedIndex: 0,
+      hexSelectedIndex: 0,
+      initiatorSelectedIndex: 0,
+      securitySelectedIndex: 0,
+      previewMessage: null,
+      pageTimings: { domContentLoaded: null, load: null },
+      preserveLog: false,
+      cacheDisabled: false,
+      throttleProfile: null,
+      targetFilter: null,
+      insecureOnly: false
     };
   }
 
@@ -71,9 +100,20 @@ export class StateManager {
         // Merge all pending updates in one batch
         const merged = Object.assign({}, ...this.pendingUpdates);
         this.state = { ...this.state, ...merged };
-        
-        // Clear cache if filters changed
+        // Updates made by listeners (selection clamps and resets) go into the next batch instead of being dropped
+        this.pendingUpdates = [];
+        this.rafId = null;
+
+        // Status terms of the query become the status code filter
         if (merged.searchQuery !== undefined || merged.filters !== undefined) {
+          this.filterQuery = parseFilterQuery(this.state.searchQuery);
+          this.state.filters = { ...this.state.filters, statusCodes: this.filterQuery.statusCodes };
+        }
+        
+        // Clear cache if filters or the list layout changed
+        if (merged.searchQuery !== undefined || merged.filters !== undefined || merged.targetFilter !== undefined ||
+            merged.insecureOnly !== undefined || merged.sort !== undefined ||
+            merged.requestView !== undefined || merged.collapsedTreeNodes !== undefined) {
           this.invalidateFilterCache();
         }
         
@@ -83,9 +123,6 @@ export class StateManager {
         }
         
         this.notifyListeners();
-        
-        this.pendingUpdates = [];
-        this.rafId = null;
       });
     }
   }
@@ -125,15 +162,27 @@ export class StateManager {
   clearRequests(): void {
     this.state.requests = [];
     this.state.selectedIndex = 0;
+    // Markers are relative to the cleared requests
+    this.state.pageTimings = { domContentLoaded: null, load: null };
     this.notifyListeners();
   }
 
-  // Delete single request (triggered by 'dd' command)
-  deleteRequest(index: number): void {
+  // Delete single request (triggered by 'dd' command); by id, since a sort, search or the
+  // tree view makes list positions differ from positions in state.requests
+  deleteRequest(requestId: string): void {
+    const index = this.state.requests.findIndex(req => req.id === requestId);
+    if (index === -1) return;
+
     this.state.requests.splice(index, 1);
-    // Adjust selection if needed
-    if (this.state.selectedIndex >= this.state.requests.length) {
-      this.state.selectedIndex = Math.max(0, this.state.requests.length - 1);
+    if (this.state.collapsedTreeNodes.has(requestId)) {
+      const collapsedTreeNodes = new Set(this.state.collapsedTreeNodes);
+      collapsedTreeNodes.delete(requestId);
+      this.state.collapsedTreeNodes = collapsedTreeNodes;
+    }
+    // The row below takes the deleted one's place; clamp when it was the last row
+    const visibleCount = this.getFilteredRequests().length;
+    if (this.state.selectedIndex >= visibleCount) {
+      this.state.selectedIndex = Math.max(0, visibleCount - 1);
     }
     this.notifyListeners();
   }
@@ -143,6 +192,7 @@ export class StateManager {
     // Check if we can use cached result
     const cacheValid = 
       this.filteredRequestsCache.requests !== null &&
+      this.filteredRequestsCache.lastRequests === this.state.requests &&
       this.filteredRequestsCache.lastRequestsLength === this.state.requests.length &&
       this.filteredRequestsCache.lastSearchQuery === this.state.searchQuery &&
       this.filteredRequestsCache.lastTypesSize === this.state.filters.types.size;
@@ -151,30 +201,79 @@ export class StateManager {
       return this.filteredRequestsCache.requests!;
     }
 
+    // The tree view and sorting insert requests mid-list (and sorting moves updated ones): keep the selected request selected
+    const previousSelected = this.state.requestView === 'tree' || this.state.sort
+      ? this.filteredRequestsCache.requests?.[this.state.selectedIndex]
+      : undefined;
+
     // Rebuild Fuse index if requests changed
     if (this.fuseIndex === null || this.lastFuseIndexLength !== this.state.requests.length) {
-      this.fuseIndex = createFuseIndex(this.state.requests);
+      this.fuseIndex = createFuseIndex(this.state.requests.filter(req => !req.isSeparator));
       this.lastFuseIndexLength = this.state.requests.length;
     }
 
     // Get base results: fuzzy search if query exists, otherwise all requests
+    // (search results are ranked by relevance, so navigation separators only appear in the full list)
     let baseResults: NetworkRequest[];
     
-    if (this.state.searchQuery) {
+    if (this.filterQuery.isPlainText && this.state.searchQuery) {
       // Use Fuse.js fuzzy search - results are already ranked by relevance
       baseResults = this.fuseIndex.search(this.state.searchQuery).map(result => result.item);
+    } else if (!this.filterQuery.isPlainText) {
+      // Structured query (status:4xx -method:GET api): keep capture order, fuzzy matching each word on its own
+      const fuseIndex = this.fuseIndex;
+      const textMatches = new Map<string, Set<NetworkRequest>>();
+      const matchesText = (request: NetworkRequest, text: string): boolean => {
+        if (!textMatches.has(text)) {
+          textMatches.set(text, new Set(fuseIndex.search(text).map(result => result.item)));
+        }
+        return textMatches.get(text)!.has(request);
+      };
+      baseResults = this.state.requests.filter(req => !req.isSeparator && matchesFilterQuery(req, this.filterQuery, matchesText));
     } else {
       baseResults = this.state.requests;
     }
 
-    // Apply type filter on top of search results
-    const filtered = this.state.filters.types.size > 0
-      ? baseResults.filter(req => this.state.filters.types.has(req.type))
+    // Apply type and status filters on top of search results (separators stay to show navigation boundaries)
+    const { types, statusCodes } = this.state.filters;
+    let filtered = types.size > 0 || statusCodes.length > 0
+      ? baseResults.filter(req => req.isSeparator ||
+          ((types.size === 0 || types.has(req.type)) && (statusCodes.length === 0 || statusCodes.includes(req.status))))
       : baseResults;
 
+    // Then keep only requests from the chosen kind of frame/worker (untagged requests are the page's)
+    const targetFilter = this.state.targetFilter;
+    if (targetFilter) {
+      filtered = filtered.filter(req => req.isSeparator || (req.target?.type || 'page') === targetFilter);
+    }
+
+    if (this.state.insecureOnly) {
+      filtered = filtered.filter(req => req.isSeparator || isInsecureRequest(req));
+    }
+
+    // Sort before building the tree so siblings keep the sort order
+    if (this.state.sort) {
+      filtered = sortRequests(filtered, this.state.sort);
+    }
+
+    // Tree view: regroup the remaining requests under their initiators
+    if (this.state.requestView === 'tree') {
+      const tree = orderAsTree(filtered, findInitiatorParents(this.state.requests), this.state.collapsedTreeNodes);
+      filtered = tree.requests;
+      this.treeNodes = tree.nodes;
+    } else {
+      this.treeNodes.clear();
+    }
+
+    const index = previousSelected ? filtered.indexOf(previousSelected) : -1;
+    if (index !== -1) {
+      this.state.selectedIndex = index;
+    }
+
     // Update cache
     this.filteredRequestsCache = {
       requests: filtered,
+      lastRequests: this.state.requests,
       lastRequestsLength: this.state.requests.length,
       lastSearchQuery: this.state.searchQuery,
       lastMethodsSize: 0,
@@ -184,6 +283,49 @@ export class StateManager {
     return filtered;
   }
   
+  // Parsed search bar query (structured terms, derived status codes, invalid terms)
+  getFilterQuery(): FilterQuery {
+    return this.filterQuery;
+  }
+  
+  // Tree position of a row in the current filtered list (undefined in the flat view)
+  getTreeNode(requestId: string): TreeNode | undefined {
+    return this.treeNodes.get(requestId);
+  }
+
+  // Switch between the flat and tree views, keeping the selected request selected
+  setRequestView(requestView: AppState['requestView']): void {
+    const selected = this.getFilteredRequests()[this.state.selectedIndex];
+    this.state = { ...this.state, requestView };
+    this.invalidateFilterCache();
+    this.state.selectedIndex = Math.max(0, selected ? this.getFilteredRequests().indexOf(selected) : 0);
+    this.notifyListeners();
+  }
+
+  // Sort the list (null restores capture order), keeping the selected request selected
+  setSort(sort: RequestSort | null): void {
+    const selected = this.getFilteredRequests()[this.state.selectedIndex];
+    this.state = { ...this.state, sort };
+    this.invalidateFilterCache();
+    this.state.selectedIndex = Math.max(0, selected ? this.getFilteredRequests().indexOf(selected) : 0);
+    this.notifyListeners();
+  }
+
+  // Collapse or expand a tree node and select it (collapsing only removes rows below it)
+  setTreeNodeCollapsed(requestId: string, collapsed: boolean): void {
+    const collapsedTreeNodes = new Set(this.state.collapsedTreeNodes);
+    if (collapsed) {
+      collapsedTreeNodes.add(requestId);
+    } else {
+      collapsedTreeNodes.delete(requestId);
+    }
+
+    this.state = { ...this.state, collapsedTreeNodes };
+    this.invalidateFilterCache();
+    this.state.selectedIndex = Math.max(0, this.getFilteredRequests().findIndex(req => req.id === requestId));
+    this.notifyListeners();
+  }
+
   // Invalidate cache when filters change significantly
   invalidateFilterCache(): void {
     this.filteredRequestsCache.requests = null;
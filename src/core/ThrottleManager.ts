@@ -0,0 +1,195 @@
+import { StateManager } from './StateManager';
+import { NetworkCapture } from './NetworkCapture';
+import { CommandRegistry } from './CommandRegistry';
+import { ListPanel } from '../components/ListPanel';
+import { showToast } from '../utils/toast';
+
+// Network conditions in user-facing units (throughput in kbit/s, latency in ms)
+export interface ThrottleProfile {
+  name: string;
+  latency: number;
+  download: number;
+  upload: number;
+  offline?: boolean;
+}
+
+// Same values as Chrome DevTools' built-in presets
+const PRESETS: ThrottleProfile[] = [
+  { name: 'fast3g', latency: 562.5, download: 1440, upload: 675 },
+  { name: 'slow3g', latency: 2000, download: 400, upload: 400 },
+  { name: 'offline', latency: 0, download: 0, upload: 0, offline: true }
+];
+
+const STORAGE_KEY = 'vim-network-throttle-profiles';
+
+// Applies network conditions via Network.emulateNetworkConditions on the capture session
+export class ThrottleManager {
+  private stateManager: StateManager;
+  private networkCapture: NetworkCapture;
+  private listPanel: ListPanel;
+  private profiles: ThrottleProfile[] = []; // User-defined, persisted
+  private active: ThrottleProfile | null = null;
+
+  constructor(stateManager: StateManager, networkCapture: NetworkCapture, listPanel: ListPanel, commands: CommandRegistry) {
+    this.stateManager = stateManager;
+    this.networkCapture = networkCapture;
+    this.listPanel = listPanel;
+
+    // Emulation is reset on detach: re-apply the active profile
+    this.networkCapture.onAttach(() => {
+      if (this.active) {
+        this.applyConditions(this.active);
+      }
+    });
+    // Iframes and workers in their own process are throttled separately
+    this.networkCapture.onTargetAttached((sessionId) => {
+      if (this.active) {
+        this.networkCapture.sendCommand('Network.emulateNetworkConditions', this.toNetworkConditions(this.active), sessionId).catch(() => {
+          // Silently fail - target detached meanwhile
+        });
+      }
+    });
+
+    this.registerCommands(commands);
+    this.loadProfilesFromStorage();
+  }
+
+  private registerCommands(commands: CommandRegistry): void {
+    commands.register('throttle', 'Throttle the network: :throttle <fast3g|slow3g|offline|profile|off>', (args) => {
+      const name = args[0];
+      if (!name) {
+        this.openProfileList();
+      } else if (name === 'off') {
+        this.disable();
+      } else {
+        const profile = this.findProfile(name);
+        if (profile) {
+          this.enable(profile);
+        } else {
+          showToast(`Unknown throttling profile: ${name}`);
+        }
+      }
+    });
+
+    commands.register('profile', 'Save a throttling profile: :profile <name> <latency ms> <download kbps> <upload kbps>', (args) => {
+      const [name, ...numbers] = args;
+      const [latency, download, upload] = numbers.map(Number);
+      if (!name || numbers.length !== 3 || [latency, download, upload].some(n => isNaN(n) || n < 0)) {
+        showToast('Usage: :profile <name> <latency ms> <download kbps> <upload kbps>');
+        return;
+      }
+      if (name === 'off' || PRESETS.some(p => p.name === name)) {
+        showToast(`${name} is a built-in name`);
+        return;
+      }
+
+      this.profiles = this.profiles.filter(p => p.name !== name);
+      this.profiles.push({ name, latency, download, upload });
+      this.saveProfilesToStorage();
+      showToast(`Saved throttling profile ${name}`);
+    });
+  }
+
+  private findProfile(name: string): ThrottleProfile | undefined {
+    return [...PRESETS, ...this.profiles].find(p => p.name === name);
+  }
+
+  // Presets first, then user profiles; Enter applies, dd deletes user profiles
+  private openProfileList(): void {
+    this.listPanel.open({
+      title: 'Network throttling',
+      emptyMessage: '',
+      editLabel: 'apply',
+      getItems: () => [
+        { label: 'off (no throttling)', enabled: true },
+        ...[...PRESETS, ...this.profiles].map(profile => ({
+          label: `${this.active?.name === profile.name ? '● ' : ''}${this.describe(profile)}`,
+          enabled: true
+        }))
+      ],
+      onEdit: (index) => {
+        if (index === 0) {
+          this.disable();
+        } else {
+          this.enable([...PRESETS, ...this.profiles][index - 1]);
+        }
+        this.listPanel.close();
+      },
+      onDelete: (index) => {
+        const profileIndex = index - 1 - PRESETS.length;
+        if (profileIndex < 0) {
+          showToast('Built-in profiles cannot be deleted');
+          return;
+        }
+        this.profiles.splice(profileIndex, 1);
+        this.saveProfilesToStorage();
+      }
+    });
+  }
+
+  private describe(profile: ThrottleProfile): string {
+    if (profile.offline) return `${profile.name} (no network)`;
+    return `${profile.name} (${profile.latency} ms, ↓${profile.download} kbps, ↑${profile.upload} kbps)`;
+  }
+
+  private async enable(profile: ThrottleProfile): Promise<void> {
+    if (await this.applyConditions(profile)) {
+      this.active = profile;
+      this.stateManager.setState({ throttleProfile: profile.name });
+      showToast(`Throttling: ${this.describe(profile)}`);
+    }
+  }
+
+  private async disable(): Promise<void> {
+    const off: ThrottleProfile = { name: 'off', latency: 0, download: -1, upload: -1 };
+    if (await this.applyConditions(off)) {
+      this.active = null;
+      this.stateManager.setState({ throttleProfile: null });
+      showToast('Throttling disabled');
+    }
+  }
+
+  // Returns false if the debugger rejected the conditions
+  private async applyConditions(profile: ThrottleProfile): Promise<boolean> {
+    try {
+      await this.networkCapture.sendCommandToAllTargets('Network.emulateNetworkConditions', this.toNetworkConditions(profile));
+      return true;
+    } catch (error: any) {
+      showToast(`Failed to apply network conditions: ${error.message || error}`);
+      return false;
+    }
+  }
+
+  private toNetworkConditions(profile: ThrottleProfile): object {
+    // CDP throughput is in bytes/s (-1 disables throttling)
+    const toBytesPerSecond = (kbps: number) => kbps < 0 ? -1 : kbps * 1000 / 8;
+
+    return {
+      offline: !!profile.offline,
+      latency: profile.latency,
+      downloadThroughput: toBytesPerSecond(profile.download),
+      uploadThroughput: toBytesPerSecond(profile.upload)
+    };
+  }
+
+  private async loadProfilesFromStorage(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEY);
+      const stored = result[STORAGE_KEY] as ThrottleProfile[] | undefined;
+
+      if (stored && Array.isArray(stored)) {
+        this.profiles = stored;
+      }
+    } catch (error) {
+      // Silently fail - only built-in presets available
+    }
+  }
+
+  private async saveProfilesToStorage(): Promise<void> {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEY]: this.profiles });
+    } catch (error) {
+      // Silently fail - profiles will be lost on reload
+    }
+  }
+}
@@ -3,24 +3,58 @@ import { StateManager } from '../core/StateManager';
 import { NetworkCapture } from '../core/NetworkCapture';
 import { KeyboardHandler } from '../core/KeyboardHandler';
 import { FilterManager } from '../core/FilterManager';
+import { CommandRegistry } from '../core/CommandRegistry';
+import { RequestInterceptor } from '../core/RequestInterceptor';
+import { MockRuleManager } from '../core/MockRuleManager';
+import { RequestReplayer } from '../core/RequestReplayer';
+import { ThrottleManager } from '../core/ThrottleManager';
+import { BlockListManager } from '../core/BlockListManager';
+import { CookieManager } from '../core/CookieManager';
+import { ColumnManager } from '../core/ColumnManager';
+import { SortManager } from '../core/SortManager';
 import { NetworkTable } from '../components/NetworkTable';
 import { PreviewPane } from '../components/PreviewPane';
 import { HeadersList } from '../components/HeadersList';
+import { MessagesList } from '../components/MessagesList';
+import { TimingView } from '../components/TimingView';
+import { CookiesList } from '../components/CookiesList';
+import { InitiatorView } from '../components/InitiatorView';
+import { SecurityView } from '../components/SecurityView';
 import { CopyMenu } from '../components/CopyMenu';
 import { StatusBar } from '../components/StatusBar';
-import { AppMode } from '../types';
+import { RequestEditor } from '../components/RequestEditor';
+import { ListPanel } from '../components/ListPanel';
+import { AppMode, TargetType } from '../types';
 import { debounce } from '../utils/debounce';
+import { ExportUtil } from '../utils/export';
+import { showToast } from '../utils/toast';
 
 class DevToolsPanel {
   private stateManager: StateManager;
   private networkCapture: NetworkCapture;
   private keyboardHandler: KeyboardHandler;
   private filterManager: FilterManager;
+  private commandRegistry: CommandRegistry;
+  private requestInterceptor: RequestInterceptor;
+  private mockRuleManager: MockRuleManager;
+  private requestReplayer: RequestReplayer;
+  private throttleManager: ThrottleManager;
+  private blockListManager: BlockListManager;
+  private cookieManager: CookieManager;
+  private columnManager: ColumnManager;
+  private sortManager: SortManager;
   private networkTable: NetworkTable;
   private previewPane: PreviewPane;
   private headersList: HeadersList;
+  private messagesList: MessagesList;
+  private timingView: TimingView;
+  private cookiesList: CookiesList;
+  private initiatorView: InitiatorView;
+  private securityView: SecurityView;
   private copyMenu: CopyMenu;
   private statusBar: StatusBar;
+  private requestEditor: RequestEditor;
+  private listPanel: ListPanel;
 
   constructor() {
     // Initialize core systems
@@ -28,29 +62,67 @@ class DevToolsPanel {
     this.networkCapture = new NetworkCapture(this.stateManager);
     this.keyboardHandler = new KeyboardHandler(this.stateManager);
     this.filterManager = new FilterManager(this.stateManager);
+    this.commandRegistry = new CommandRegistry();
 
-    // Make filterManager and networkCapture globally accessible
+    // Make filterManager, networkCapture and commandRegistry globally accessible
     (window as any).filterManager = this.filterManager;
     (window as any).networkCapture = this.networkCapture;
+    window.commandRegistry = this.commandRegistry;
 
     // Initialize UI components
     const tableContainer = document.getElementById('network-table')!;
     const previewContainer = document.getElementById('preview-pane')!;
     const headersContainer = document.getElementById('headers-view')!;
+    const messagesContainer = document.getElementById('messages-view')!;
+    const timingContainer = document.getElementById('timing-view')!;
+    const cookiesContainer = document.getElementById('cookies-view')!;
+    const initiatorContainer = document.getElementById('initiator-view')!;
+    const securityContainer = document.getElementById('security-view')!;
     const copyBarContainer = document.getElementById('copy-bar')!;
+    const editorContainer = document.getElementById('request-editor')!;
+    const listPanelContainer = document.getElementById('list-panel')!;
     
     this.networkTable = new NetworkTable(tableContainer, this.stateManager);
     this.previewPane = new PreviewPane(previewContainer, this.stateManager);
     this.headersList = new HeadersList(headersContainer, this.stateManager);
+    this.messagesList = new MessagesList(messagesContainer, this.stateManager);
+    this.timingView = new TimingView(timingContainer, this.stateManager);
+    this.cookiesList = new CookiesList(cookiesContainer, this.stateManager);
+    this.initiatorView = new InitiatorView(initiatorContainer, this.stateManager);
+    this.securityView = new SecurityView(securityContainer, this.stateManager);
     this.copyMenu = new CopyMenu(copyBarContainer, this.stateManager);
     this.statusBar = new StatusBar(this.stateManager);
+    this.requestEditor = new RequestEditor(editorContainer, this.stateManager);
+    this.listPanel = new ListPanel(listPanelContainer, this.stateManager);
 
-    // Make headersList and copyMenu globally accessible for KeyboardHandler
+    // Mocks and breakpoints share the debugger session and edit through the request editor
+    this.mockRuleManager = new MockRuleManager(this.networkCapture, this.requestEditor, this.listPanel, this.commandRegistry);
+    this.requestInterceptor = new RequestInterceptor(this.stateManager, this.networkCapture, this.requestEditor, this.mockRuleManager, this.commandRegistry);
+    this.requestReplayer = new RequestReplayer(this.stateManager, this.networkCapture, this.requestEditor, this.commandRegistry);
+    this.throttleManager = new ThrottleManager(this.stateManager, this.networkCapture, this.listPanel, this.commandRegistry);
+    this.blockListManager = new BlockListManager(this.networkCapture, this.requestEditor, this.listPanel, this.commandRegistry);
+    this.cookieManager = new CookieManager(this.networkCapture, this.requestEditor, this.listPanel, this.commandRegistry);
+    this.columnManager = new ColumnManager(this.stateManager, this.listPanel, this.commandRegistry);
+    this.sortManager = new SortManager(this.stateManager, this.commandRegistry);
+
+    // Make headersList, messagesList and copyMenu globally accessible for KeyboardHandler
     (window as any).headersList = this.headersList;
+    (window as any).messagesList = this.messagesList;
     (window as any).copyMenu = this.copyMenu;
+    window.requestEditor = this.requestEditor;
+    window.requestInterceptor = this.requestInterceptor;
+    window.mockRuleManager = this.mockRuleManager;
+    window.requestReplayer = this.requestReplayer;
+    window.listPanel = this.listPanel;
+    window.cookiesList = this.cookiesList;
+    window.initiatorView = this.initiatorView;
+    window.securityView = this.securityView;
+    window.blockListManager = this.blockListManager;
+    window.sortManager = this.sortManager;
 
     // Setup UI event listeners
     this.setupUI();
+    this.registerCommands();
 
     // Subscribe to state changes for mode indicator
     this.stateManager.subscribe(this.updateModeIndicator.bind(this));
@@ -107,10 +179,69 @@ class DevToolsPanel {
     // Filter checkboxes are now handled by FilterManager
   }
 
+  // Commands that don't belong to a single feature
+  private registerCommands(): void {
+    this.commandRegistry.register('source', 'Open the selected request\'s initiator in the Sources panel', () => {
+      const state = this.stateManager.getState();
+      const request = this.stateManager.getFilteredRequests()[state.selectedIndex];
+      if (request) {
+        this.initiatorView.openSelectedFrame(request);
+      }
+    });
+
+    this.commandRegistry.register('reload', 'Reload the inspected page (:reload! bypasses the cache)', () => {
+      this.networkCapture.reloadInspectedPage();
+    });
+
+    this.commandRegistry.register('reload!', 'Reload the inspected page bypassing the cache', () => {
+      this.networkCapture.reloadInspectedPage(true);
+    });
+
+    this.commandRegistry.register('nocache', 'Toggle disable cache', async () => {
+      await this.networkCapture.toggleCacheDisabled();
+      showToast(this.stateManager.getState().cacheDisabled ? 'Cache disabled' : 'Cache enabled');
+    });
+
+    this.commandRegistry.register('target', 'Only show requests from: :target <page|iframe|worker|service_worker|shared_worker|all>', (args) => {
+      const targets: TargetType[] = ['page', 'iframe', 'worker', 'service_worker', 'shared_worker'];
+      const target = args[0];
+      if (!target || target === 'all') {
+        this.stateManager.setState({ targetFilter: null, selectedIndex: 0 });
+      } else if (targets.includes(target as TargetType)) {
+        this.stateManager.setState({ targetFilter: target as TargetType, selectedIndex: 0 });
+      } else {
+        showToast(`Usage: :target <${targets.join('|')}|all>`);
+      }
+    });
+
+    this.commandRegistry.register('insecure', 'Toggle showing only insecure and mixed-content requests', () => {
+      const insecureOnly = !this.stateManager.getState().insecureOnly;
+      this.stateManager.setState({ insecureOnly, selectedIndex: 0 });
+      showToast(insecureOnly ? 'Showing insecure requests only' : 'Showing all requests');
+    });
+
+    this.commandRegistry.register('export', 'Export captured requests: :export [json|har]', async (args) => {
+      const format = args[0] || 'har';
+      const requests = this.stateManager.getState().requests;
+      if (format !== 'har' && format !== 'json') {
+        showToast('Usage: :export [json|har]');
+        return;
+      }
+
+      await this.networkCapture.fetchRequestBodies(requests);
+      if (format === 'har') {
+        ExportUtil.exportAsHAR(requests);
+      } else {
+        ExportUtil.exportAsJSON(requests);
+      }
+    });
+  }
+
   private updateModeIndicator(state: any): void {
     const modeIndicator = document.getElementById('mode-indicator')!;
     const modeText = document.getElementById('mode-text')!;
     const searchBar = document.getElementById('search-bar')!;
+    const commandBar = document.getElementById('command-bar')!;
     const filterBar = document.getElementById('filter-bar')!;
     const copyBar = document.getElementById('copy-bar')!;
     const networkTable = document.getElementById('network-table')!;
@@ -122,7 +253,9 @@ class DevToolsPanel {
 
     // Show/hide search, filter, and copy bars
     const wasSearchHidden = searchBar.classList.contains('hidden');
+    const wasCommandHidden = commandBar.classList.contains('hidden');
     searchBar.classList.toggle('hidden', state.mode !== AppMode.SEARCH);
+    commandBar.classList.toggle('hidden', state.mode !== AppMode.COMMAND);
     filterBar.classList.toggle('hidden', state.mode !== AppMode.FILTER);
     copyBar.classList.toggle('hidden', state.mode !== AppMode.COPY);
 
@@ -137,6 +270,15 @@ class DevToolsPanel {
       // Don't select text - just place cursor at end
       searchInput.setSelectionRange(searchInput.value.length, searchInput.value.length);
     }
+
+    // Start each command with an empty line; give focus back to the table when done
+    if (state.mode === AppMode.COMMAND && wasCommandHidden) {
+      const commandInput = document.getElementById('command-input') as HTMLInputElement;
+      commandInput.value = '';
+      commandInput.focus();
+    } else if (state.mode === AppMode.NORMAL && !wasCommandHidden) {
+      networkTable.focus();
+    }
   }
 
   private focusNetworkTable(): void {
@@ -4,16 +4,27 @@ export enum AppMode {
   SEARCH = 'search',   // Active when '/' pressed, typing search
   FILTER = 'filter',   // Active when 'f' pressed, selecting filters
   INSPECT = 'inspect', // Active when Enter pressed on a request
-  COPY = 'copy'        // Active when 'c' pressed, showing copy menu
+  COPY = 'copy',       // Active when 'c' pressed, showing copy menu
+  COMMAND = 'command', // Active when ':' pressed, typing an ex-style command
+  EDIT = 'edit',       // Active while the request editor is open
+  LIST = 'list'        // Active while a rule list (e.g. mocks) is open
 }
 
 // Focus areas in inspect mode
 export enum InspectFocus {
   HEADERS = 'headers',
   RESPONSE = 'response',
-  PREVIEW = 'preview'
+  PREVIEW = 'preview',
+  MESSAGES = 'messages',
+  TIMING = 'timing',
+  COOKIES = 'cookies',
+  INITIATOR = 'initiator',
+  SECURITY = 'security'
 }
 
+// Tabs available in the preview pane (ids match InspectFocus values)
+export type PreviewTab = 'headers' | 'response' | 'preview' | 'messages' | 'timing' | 'cookies' | 'initiator' | 'security';
+
 export enum RequestMethod {
   GET = 'GET',
   POST = 'POST',
@@ -50,12 +61,190 @@ export interface NetworkRequest {
   statusText: string;                      // Status text or "Pending"
   timestamp: number;                       // Request start time (ms)
   duration: number;                        // Request duration (ms)
+  timing?: RequestTiming;                  // Phase breakdown (absent for pending/cached requests)
   size: number;                            // Response size (bytes)
+  resourceSize?: number;                   // Decoded body size (bytes), summed from dataReceived
+  mimeType?: string;                       // Response MIME type as reported by Chrome
+  protocol?: string;                       // Negotiated protocol, e.g. 'h2' or 'http/1.1'
+  remoteAddress?: string;                  // Server IP and port the response came from
+  priority?: string;                       // Chrome's loading priority ('VeryHigh' ... 'VeryLow')
+  cacheSource?: CacheSource;               // Where a cached response was served from
   requestHeaders: Record<string, string>;  // Request headers map
   responseHeaders: Record<string, string>; // Response headers map
   requestBody?: any;                       // POST data if present
-  responseBody?: any;                      // Response body (parsed JSON or text)
-  initiator?: string;                      // What triggered the request
+  hasPostData?: boolean;                   // Body exists even if Chrome left it out (fetched lazily)
+  responseBody?: any;                      // Response body (parsed JSON, text or BinaryBody)
+  initiator?: RequestInitiator;            // What triggered the request (parser, script stack, ...)
+  frameId?: string;                        // Frame the request was made for (absent for worker requests)
+  target?: RequestTarget;                  // Iframe or worker it came from (absent for the page's main frame)
+  securityState?: string;                  // 'secure', 'insecure', 'neutral', ... from responseReceived
+  securityDetails?: SecurityDetails;       // TLS connection and certificate (HTTPS responses only)
+  mixedContentType?: string;               // 'blockable' / 'optionally-blockable' on a secure page, else 'none'
+  webSocketFrames?: WebSocketFrame[];      // Frames sent/received over a WebSocket
+  eventSourceMessages?: EventSourceMessage[]; // Events received over an EventSource (SSE)
+  droppedMessages?: number;                // Oldest frames/events removed past the per-connection cap
+  paused?: InterceptionStage;              // Set while held at a breakpoint
+  isMocked?: boolean;                      // Response was served by a mock rule
+  replayOf?: string;                       // Id of the request this one was resent from
+  isSeparator?: boolean;                   // Navigation marker row kept by preserve log (not a real request)
+  redirectChain?: RedirectHop[];           // Redirects followed before reaching this URL, oldest first
+  blockedReason?: string;                  // loadingFailed blockedReason (e.g. 'inspector' for the block list)
+  requestHeadersText?: string;             // Raw request header block (HTTP/1.x only)
+  responseHeadersText?: string;            // Raw response header block (HTTP/1.x only)
+  associatedCookies?: CookieReport[];      // Cookies considered for the request, blocked ones with reasons
+  blockedCookies?: CookieReport[];         // Set-Cookie headers the browser rejected
+}
+
+// Network.Initiator, with the script stack flattened (async parents included)
+export interface RequestInitiator {
+  type: string;                            // 'parser', 'script', 'preload', 'preflight', 'other', ...
+  url?: string;                            // Document or script that started the request
+  lineNumber?: number;                     // 0-based position for parser initiators
+  columnNumber?: number;
+  requestId?: string;                      // Preflight: the request it was sent ahead of
+  stack: StackFrame[];                     // Innermost frame first (empty unless type is 'script')
+}
+
+export interface StackFrame {
+  functionName: string;                    // Empty for anonymous functions
+  url: string;
+  lineNumber: number;                      // 0-based
+  columnNumber: number;                    // 0-based
+  asyncDescription?: string;               // First frame of an async parent stack, e.g. 'Promise.then'
+}
+
+// Cookie reported by the ExtraInfo events; blockedReasons is empty for cookies that were sent
+export interface CookieReport {
+  name: string;
+  value: string;
+  blockedReasons: string[];                // CDP reasons, e.g. 'SameSiteLax', 'SecureOnly'
+  cookieLine?: string;                     // Raw Set-Cookie line (response cookies only)
+  domain?: string;                         // Attributes below are only known for request cookies
+  path?: string;
+  expires?: number;                        // Seconds since epoch, -1 for session cookies
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: string;
+}
+
+// Request table columns (definitions in utils/columns)
+export type ColumnId =
+  | 'name' | 'status' | 'method' | 'type' | 'target' | 'domain' | 'path' | 'protocol' | 'remote'
+  | 'priority' | 'initiator' | 'start' | 'duration' | 'ttfb' | 'size' | 'resource' | 'contentType'
+  | 'cache' | 'waterfall';
+
+// Columns the request list can be sorted by
+export type SortColumn = Extract<ColumnId, 'name' | 'status' | 'method' | 'type' | 'size' | 'duration' | 'start'>;
+export type SortDirection = 'asc' | 'desc';
+
+export interface RequestSort {
+  column: SortColumn;
+  direction: SortDirection;
+}
+
+// Caches a response can be served from instead of the network
+export type CacheSource = 'memory' | 'disk' | 'prefetch' | 'service-worker';
+
+// TLS connection and certificate of an HTTPS response
+export interface SecurityDetails {
+  protocol: string;                        // e.g. 'TLS 1.3'
+  keyExchange: string;                     // Empty for TLS 1.3
+  keyExchangeGroup?: string;               // e.g. 'X25519'
+  cipher: string;
+  mac?: string;                            // Absent for AEAD ciphers
+  subjectName: string;
+  sanList: string[];                       // Subject alternative names
+  issuer: string;
+  validFrom: number;                       // Seconds since epoch
+  validTo: number;
+  certificateTransparencyCompliance: string; // 'compliant', 'not-compliant' or 'unknown'
+  signedCertificateTimestamps: number;     // SCTs delivered for the certificate
+}
+
+// Debugging target kinds a request can come from ('page' is the inspected page's main frame)
+export type TargetType = 'page' | 'iframe' | 'worker' | 'service_worker' | 'shared_worker';
+
+// Frame or worker a request was captured from
+export interface RequestTarget {
+  type: TargetType;
+  url: string;                             // Frame document or worker script URL
+  sessionId?: string;                      // Flattened CDP session of an auto-attached target (OOPIF, worker)
+}
+
+// Response body Chrome returned base64-encoded (images, fonts, protobuf, ...): kept as bytes, never parsed
+export interface BinaryBody {
+  encoding: 'base64';
+  data: string;                            // Base64 as returned by Network.getResponseBody
+  mimeType: string;
+  size: number;                            // Decoded length (bytes)
+}
+
+// One redirect response in a chain (the request/response that pointed elsewhere)
+export interface RedirectHop {
+  url: string;
+  method: RequestMethod;
+  status: number;
+  statusText: string;
+  location: string;                        // URL the redirect pointed to
+  requestHeaders: Record<string, string>;
+  responseHeaders: Record<string, string>;
+  timestamp: number;                       // Hop start time (ms)
+  duration: number;                        // Until the next hop started (ms)
+  timing?: RequestTiming;
+}
+
+// Point at which the Fetch domain can hold a request
+export type InterceptionStage = 'request' | 'response';
+
+// Pauses requests whose URL matches the pattern (Fetch domain wildcards: * and ?)
+export interface Breakpoint {
+  urlPattern: string;
+  stage: InterceptionStage;
+}
+
+// Serves a canned response for matching requests instead of hitting the network
+export interface MockRule {
+  urlPattern: string;                      // Wildcard pattern, or /regex/ when wrapped in slashes
+  method: string;                          // HTTP method or '*' for any
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  enabled: boolean;
+}
+
+// Blocks matching requests via Network.setBlockedURLs
+export interface BlockRule {
+  urlPattern: string;                      // Wildcard pattern (* matches anything)
+  enabled: boolean;
+}
+
+// Phase durations in ms, HAR-style: -1 means the phase did not happen (e.g. reused connection)
+// Phases run back to back from NetworkRequest.timestamp; ssl is included in connect
+export interface RequestTiming {
+  blocked: number;                         // Queueing and stalled time before the request started
+  dns: number;                             // DNS lookup
+  connect: number;                         // TCP connection (including SSL)
+  ssl: number;                             // TLS handshake
+  send: number;                            // Sending the request
+  wait: number;                            // Waiting for the first response byte (TTFB)
+  receive: number;                         // Content download (set when loading finishes)
+}
+
+// Single WebSocket frame captured from the debugger
+export interface WebSocketFrame {
+  direction: 'sent' | 'received' | 'error'; // Error frames carry the error message as payload
+  opcode: number;                          // 1 = text, 2 = binary, 8 = close, 9 = ping, 10 = pong
+  payload: string;                         // Frame data (base64 for binary frames)
+  size: number;                            // Payload size (bytes)
+  timestamp: number;                       // Frame time (ms, same clock as NetworkRequest.timestamp)
+}
+
+// Single Server-Sent Event received on an EventSource connection
+export interface EventSourceMessage {
+  eventName: string;                       // Event type ('message' unless the server sets one)
+  eventId: string;                         // Last event id ('' if none)
+  data: string;                            // Event data
+  timestamp: number;                       // Event time (ms, same clock as NetworkRequest.timestamp)
 }
 
 // Application state - single source of truth
@@ -66,9 +255,13 @@ export interface AppState {
   searchQuery: string;                     // Current search text
   filters: FilterState;                    // Active filters
   jsonExpanded: Map<string, boolean>;      // JSON node expansion state
-  previewTab: 'headers' | 'response' | 'preview'; // Active preview tab
+  previewTab: PreviewTab;                  // Active preview tab
+  requestView: 'flat' | 'tree';            // Request list as a flat table or an initiator tree
+  collapsedTreeNodes: Set<string>;         // Tree view: ids whose initiated requests are hidden
   filterSelectedIndex: number;             // Currently selected filter (0-based)
   filterOrder: string[];                   // Custom order of filter values (excluding 'all')
+  columns: ColumnId[];                     // Visible request table columns, left to right
+  sort: RequestSort | null;                // null = capture order (relevance while searching)
   inspectFocus: InspectFocus;              // Which panel is focused in inspect mode
   inspectScrollPosition: number;           // Scroll position in focused panel
   inspectSearchQuery: string;              // Search query within panel
@@ -78,11 +271,29 @@ export interface AppState {
   isInspectExpanded: boolean;              // Whether inspect mode is in full-width view
   jsonSelectedIndex: number;               // Currently selected JSON node in Preview tab
   flattenedJsonNodes: JsonNode[];          // Cached flat list of visible JSON nodes
+  messagesSelectedIndex: number;           // Currently selected frame/event in Messages tab
+  cookiesSelectedIndex: number;            // Currently selected cookie in Cookies tab
+  hexSelectedIndex: number;                // Currently selected hex dump row in Response tab
+  initiatorSelectedIndex: number;          // Currently selected stack frame in Initiator tab
+  securitySelectedIndex: number;           // Currently selected row in Security tab
+  previewMessage: { requestId: string; index: number } | null; // Frame/event shown in Preview tab, index counting dropped ones (null = response body)
+  pageTimings: PageTimings;                // Page lifecycle markers for the waterfall
+  preserveLog: boolean;                    // Keep requests across main frame navigations
+  cacheDisabled: boolean;                  // Network.setCacheDisabled applied to the inspected tab
+  throttleProfile: string | null;          // Active network throttling profile (null = no throttling)
+  targetFilter: TargetType | null;         // Only show requests from this kind of target (null = all)
+  insecureOnly: boolean;                   // Only show insecure and mixed-content requests
+}
+
+// Page lifecycle events (ms, same clock as NetworkRequest.timestamp; null until fired)
+export interface PageTimings {
+  domContentLoaded: number | null;
+  load: number | null;
 }
 
 export interface FilterState {
   types: Set<ResourceType>;                // Filtered resource types
-  statusCodes: number[];                   // Filtered status codes
+  statusCodes: number[];                   // Allowed status codes, set by status: search terms ([] = any)
 }
 
 // JSON node for tree navigation
@@ -0,0 +1,166 @@
+import { ColumnId, NetworkRequest } from '../types';
+
+// Values shared by all rows that some columns are relative to
+export interface ColumnContext {
+  sessionStart: number;                    // Earliest request start (ms), as used by the waterfall
+}
+
+export interface ColumnDefinition {
+  label: string;                           // Header text
+  width: string;                           // CSS grid track
+  getText: (request: NetworkRequest, context: ColumnContext) => string;
+  getTitle?: (request: NetworkRequest) => string | undefined; // Tooltip when the cell text is abbreviated
+}
+
+// Columns shown until the user picks their own (:columns)
+export const DEFAULT_COLUMNS: ColumnId[] = ['name', 'status', 'method', 'type', 'target', 'size', 'waterfall'];
+
+/**
+ * Every column the request table can show, in the order :columns lists them.
+ * Name, Status and Waterfall get extra rendering in NetworkTable (tree indent, security, bars).
+ */
+export const COLUMNS: Record<ColumnId, ColumnDefinition> = {
+  name: {
+    label: 'Name',
+    width: 'minmax(120px, 1fr)',
+    getText: request => request.name,
+    getTitle: request => request.url
+  },
+  status: {
+    label: 'Status',
+    width: '70px',
+    // Requests held at a breakpoint show as paused, blocked ones as blocked, instead of pending/their status
+    getText: request => {
+      if (request.paused) return 'Paused';
+      if (request.blockedReason) return `(blocked:${request.blockedReason})`;
+      return request.status > 0 ? request.status.toString() : 'Pending';
+    }
+  },
+  method: {
+    label: 'Method',
+    width: '80px',
+    getText: request => request.method
+  },
+  type: {
+    label: 'Type',
+    width: '100px',
+    getText: request => request.type
+  },
+  target: {
+    label: 'Target',
+    width: '90px',
+    getText: request => request.target ? request.target.type.replace('_', ' ') : '', // Blank for the page itself
+    getTitle: request => request.target?.url
+  },
+  domain: {
+    label: 'Domain',
+    width: '140px',
+    getText: request => parseUrl(request.url)?.host || ''
+  },
+  path: {
+    label: 'Path',
+    width: 'minmax(120px, 1fr)',
+    getText: request => {
+      const url = parseUrl(request.url);
+      return url ? url.pathname + url.search : request.url;
+    }
+  },
+  protocol: {
+    label: 'Protocol',
+    width: '70px',
+    getText: request => request.protocol || ''
+  },
+  remote: {
+    label: 'Remote Address',
+    width: '150px',
+    getText: request => request.remoteAddress || ''
+  },
+  priority: {
+    label: 'Priority',
+    width: '80px',
+    getText: request => request.priority || ''
+  },
+  initiator: {
+    label: 'Initiator',
+    width: '160px',
+    getText: request => {
+      const initiator = request.initiator;
+      if (!initiator) return '';
+      // Innermost script frame, else the parser/preflight location
+      const frame = initiator.stack[0];
+      const url = frame?.url || initiator.url;
+      const line = frame ? frame.lineNumber : initiator.lineNumber;
+      if (!url) return initiator.type;
+      const name = url.split('?')[0].split('/').pop() || url;
+      return line !== undefined ? `${name}:${line + 1}` : name;
+    },
+    getTitle: request => request.initiator?.stack[0]?.url || request.initiator?.url
+  },
+  start: {
+    label: 'Start',
+    width: '80px',
+    getText: (request, context) => request.timestamp ? formatMs(request.timestamp - context.sessionStart) : ''
+  },
+  duration: {
+    label: 'Duration',
+    width: '80px',
+    getText: request => request.status > 0 ? formatMs(request.duration) : '-'
+  },
+  ttfb: {
+    label: 'TTFB',
+    width: '70px',
+    getText: request => request.timing ? formatMs(request.timing.wait) : '-'
+  },
+  size: {
+    label: 'Size',
+    width: '100px',
+    getText: request => formatSize(request.size),
+    getTitle: request => request.resourceSize === undefined
+      ? undefined
+      : `${formatSize(request.size)} transferred, ${formatSize(request.resourceSize)} resource` // Compression makes them differ
+  },
+  resource: {
+    label: 'Resource',
+    width: '90px',
+    getText: request => request.resourceSize === undefined ? '-' : formatSize(request.resourceSize)
+  },
+  contentType: {
+    label: 'Content-Type',
+    width: '140px',
+    getText: request => request.mimeType || ''
+  },
+  cache: {
+    label: 'Cache',
+    width: '90px',
+    getText: request => request.cacheSource || ''
+  },
+  waterfall: {
+    label: 'Waterfall',
+    width: '25%',
+    getText: () => ''
+  }
+};
+
+export function isColumnId(value: string): value is ColumnId {
+  return Object.prototype.hasOwnProperty.call(COLUMNS, value);
+}
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
+
+function formatMs(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  return `${(ms / 1000).toFixed(2)} s`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes === 0) return '-';
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+}
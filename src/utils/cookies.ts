@@ -0,0 +1,107 @@
+import { NetworkRequest, CookieReport } from '../types';
+import { getHeaderValue } from './headers';
+
+// Row in the Cookies tab
+export interface CookieRow {
+  source: 'request' | 'response';
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: string;                         // 'Session' when the cookie has no expiry
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: string;
+  size: number;                            // name + value length, as Chrome reports it
+  blockedReasons: string[];                // Empty unless Chrome blocked the cookie
+}
+
+/**
+ * Cookies sent with the request (from the Cookie header), plus the ones Chrome withheld.
+ * Attributes come from the ExtraInfo events when available; the header only carries name=value.
+ */
+export function getRequestCookies(request: NetworkRequest): CookieRow[] {
+  const reports = request.associatedCookies || [];
+  const header = getHeaderValue(request.requestHeaders, 'cookie') || '';
+
+  const sent = header
+    .split(';')
+    .map(pair => pair.trim())
+    .filter(pair => pair.length > 0)
+    .map(pair => {
+      const [name, ...value] = pair.split('=');
+      const report = reports.find(r => r.name === name.trim() && r.blockedReasons.length === 0);
+      return toRow('request', name.trim(), value.join('='), report);
+    });
+
+  const blocked = reports
+    .filter(report => report.blockedReasons.length > 0)
+    .map(report => toRow('request', report.name, report.value, report));
+
+  return [...sent, ...blocked];
+}
+
+/**
+ * Cookies set by the response, one per Set-Cookie line (CDP joins repeated headers with newlines)
+ */
+export function getResponseCookies(request: NetworkRequest): CookieRow[] {
+  const header = getHeaderValue(request.responseHeaders, 'set-cookie') || '';
+
+  return header
+    .split('\n')
+    .filter(line => line.trim().length > 0)
+    .map(line => {
+      const row = parseSetCookie(line);
+      const blocked = request.blockedCookies?.find(report => report.cookieLine === line);
+      row.blockedReasons = blocked ? blocked.blockedReasons : [];
+      return row;
+    });
+}
+
+/**
+ * Parse a single Set-Cookie line into a row (attributes are case-insensitive)
+ */
+export function parseSetCookie(line: string): CookieRow {
+  const [pair, ...attributes] = line.split(';');
+  const [name, ...value] = pair.split('=');
+  const row = toRow('response', name.trim(), value.join('=').trim());
+
+  attributes.forEach(attribute => {
+    const [key, ...rest] = attribute.split('=');
+    const attributeValue = rest.join('=').trim();
+
+    switch (key.trim().toLowerCase()) {
+      case 'domain': row.domain = attributeValue; break;
+      case 'path': row.path = attributeValue; break;
+      case 'expires': if (row.expires === 'Session') row.expires = attributeValue; break;
+      case 'max-age': row.expires = formatMaxAge(Number(attributeValue)); break; // Max-Age wins over Expires
+      case 'httponly': row.httpOnly = true; break;
+      case 'secure': row.secure = true; break;
+      case 'samesite': row.sameSite = attributeValue; break;
+    }
+  });
+
+  return row;
+}
+
+function toRow(source: CookieRow['source'], name: string, value: string, report?: CookieReport): CookieRow {
+  return {
+    source,
+    name,
+    value,
+    domain: report?.domain || '',
+    path: report?.path || '',
+    expires: report?.expires !== undefined && report.expires >= 0 ? new Date(report.expires * 1000).toUTCString() : 'Session',
+    httpOnly: !!report?.httpOnly,
+    secure: !!report?.secure,
+    sameSite: report?.sameSite || '',
+    size: name.length + value.length,
+    blockedReasons: report?.blockedReasons || []
+  };
+}
+
+function formatMaxAge(seconds: number): string {
+  if (isNaN(seconds)) return 'Session';
+  if (seconds <= 0) return 'Expired';
+  return new Date(Date.now() + seconds * 1000).toUTCString();
+}
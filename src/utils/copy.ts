@@ -1,4 +1,5 @@
 import { NetworkRequest, JsonNode } from '../types';
+import { isBinaryBody } from './encoding';
 
 export class CopyUtil {
   // Copy JSON node value (for 'y' command)
@@ -36,10 +37,12 @@ export class CopyUtil {
       curl += ` -X ${method}`;
     }
     
-    // Add headers
-    Object.entries(requestHeaders).forEach(([key, value]) => {
-      curl += ` \\\n  -H '${key}: ${value}'`;
-    });
+    // Add headers (HTTP/2 pseudo-headers like :authority are derived by curl)
+    Object.entries(requestHeaders)
+      .filter(([key]) => !key.startsWith(':'))
+      .forEach(([key, value]) => {
+        curl += ` \\\n  -H '${key}: ${value}'`;
+      });
     
     // Add request body if present
     if (requestBody) {
@@ -69,9 +72,10 @@ export class CopyUtil {
     return JSON.stringify(request.responseHeaders, null, 2);
   }
   
-  // Copy response body
+  // Copy response body (binary bodies as base64)
   static copyResponse(request: NetworkRequest): string {
     if (!request.responseBody) return '';
+    if (isBinaryBody(request.responseBody)) return request.responseBody.data;
     return typeof request.responseBody === 'string'
       ? request.responseBody
       : JSON.stringify(request.responseBody, null, 2);
@@ -0,0 +1,53 @@
+import { BinaryBody } from '../types';
+
+/**
+ * Encode UTF-8 text as base64 (the Fetch domain expects bodies base64-encoded)
+ */
+export function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 into UTF-8 text
+ */
+export function fromBase64(base64: string): string {
+  const binary = atob(base64);
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Decode base64 into raw bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+/**
+ * Number of bytes a base64 string decodes to, without decoding it
+ */
+export function base64ByteLength(base64: string): number {
+  if (!base64) return 0;
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor(base64.length * 3 / 4) - padding;
+}
+
+/**
+ * Whether a MIME type carries text, so a base64 body can still be shown decoded
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  return /^text\/|[/+](json|xml|javascript|ecmascript)\b|^application\/x-www-form-urlencoded/i.test(mimeType);
+}
+
+/**
+ * Type guard for response bodies kept as bytes (see fetchResponseBodyLazy)
+ */
+export function isBinaryBody(body: unknown): body is BinaryBody {
+  return typeof body === 'object' && body !== null &&
+    (body as BinaryBody).encoding === 'base64' && typeof (body as BinaryBody).data === 'string';
+}
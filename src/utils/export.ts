@@ -1,9 +1,11 @@
-import { NetworkRequest } from '../types';
+import { NetworkRequest, RedirectHop, RequestTiming } from '../types';
+import { getHeaderValue } from './headers';
+import { isBinaryBody } from './encoding';
 
 export class ExportUtil {
   // Export as simple JSON
   static exportAsJSON(requests: NetworkRequest[]): void {
-    const data = JSON.stringify(requests, null, 2);
+    const data = JSON.stringify(requests.filter(req => !req.isSeparator), null, 2);
     this.download(data, 'network-requests.json', 'application/json');
   }
 
@@ -16,7 +18,13 @@ export class ExportUtil {
           name: 'ViNetwork',
           version: '1.0.0'
         },
-        entries: requests.map(req => this.convertToHAREntry(req))
+        // Each redirect hop is its own entry, ahead of the request it led to
+        entries: requests
+          .filter(req => !req.isSeparator)
+          .flatMap(req => [
+            ...(req.redirectChain || []).map(hop => this.convertRedirectToHAREntry(hop)),
+            this.convertToHAREntry(req)
+          ])
       }
     };
 
@@ -34,10 +42,16 @@ export class ExportUtil {
         url: request.url,
         httpVersion: 'HTTP/1.1',
         headers: this.convertHeadersToHAR(request.requestHeaders),
+        headersSize: request.requestHeadersText?.length ?? -1,
+        cookies: (request.associatedCookies || [])
+          .filter(cookie => cookie.blockedReasons.length === 0)
+          .map(({ name, value }) => ({ name, value })),
         queryString: [],
         postData: request.requestBody ? {
-          mimeType: 'application/json',
-          text: JSON.stringify(request.requestBody)
+          mimeType: getHeaderValue(request.requestHeaders, 'content-type') || 'application/octet-stream',
+          text: typeof request.requestBody === 'string'
+            ? request.requestBody
+            : JSON.stringify(request.requestBody)
         } : undefined
       },
       response: {
@@ -45,21 +59,73 @@ export class ExportUtil {
         statusText: request.statusText,
         httpVersion: 'HTTP/1.1',
         headers: this.convertHeadersToHAR(request.responseHeaders),
+        headersSize: request.responseHeadersText?.length ?? -1,
+        cookies: [],
+        content: this.convertContentToHAR(request),
+        redirectURL: getHeaderValue(request.responseHeaders, 'location') || ''
+      },
+      cache: {},
+      timings: this.convertTimingsToHAR(request.timing, request.duration)
+    };
+  }
+
+  // Response content; binary bodies stay base64 as HAR allows
+  private static convertContentToHAR(request: NetworkRequest): any {
+    const body = request.responseBody;
+    const mimeType = request.mimeType || request.responseHeaders['content-type'] || 'text/plain';
+
+    if (isBinaryBody(body)) {
+      return { size: body.size, mimeType: body.mimeType, text: body.data, encoding: 'base64' };
+    }
+
+    return {
+      // Decoded size; size is what went over the wire (compressed, with headers)
+      size: request.resourceSize ?? request.size,
+      mimeType,
+      text: typeof body === 'string' ? body : JSON.stringify(body)
+    };
+  }
+
+  // Convert a redirect hop to a HAR entry (redirect responses have no body)
+  private static convertRedirectToHAREntry(hop: RedirectHop): any {
+    return {
+      startedDateTime: new Date(hop.timestamp).toISOString(),
+      time: hop.duration,
+      request: {
+        method: hop.method,
+        url: hop.url,
+        httpVersion: 'HTTP/1.1',
+        headers: this.convertHeadersToHAR(hop.requestHeaders),
+        queryString: []
+      },
+      response: {
+        status: hop.status,
+        statusText: hop.statusText,
+        httpVersion: 'HTTP/1.1',
+        headers: this.convertHeadersToHAR(hop.responseHeaders),
         content: {
-          size: request.size,
-          mimeType: request.responseHeaders['content-type'] || 'text/plain',
-          text: typeof request.responseBody === 'string' 
-            ? request.responseBody 
-            : JSON.stringify(request.responseBody)
-        }
+          size: 0,
+          mimeType: getHeaderValue(hop.responseHeaders, 'content-type') || 'text/plain'
+        },
+        redirectURL: hop.location
       },
       cache: {},
-      timings: {
+      timings: this.convertTimingsToHAR(hop.timing, hop.duration)
+    };
+  }
+
+  // HAR timings; without a phase breakdown the whole duration is reported as wait
+  private static convertTimingsToHAR(timing: RequestTiming | undefined, duration: number): any {
+    if (!timing) {
+      return {
         send: 0,
-        wait: request.duration,
+        wait: duration,
         receive: 0
-      }
-    };
+      };
+    }
+
+    const { blocked, dns, connect, ssl, send, wait, receive } = timing;
+    return { blocked, dns, connect, ssl, send, wait, receive };
   }
 
   private static convertHeadersToHAR(headers: Record<string, string>): any[] {
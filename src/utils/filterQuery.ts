@@ -0,0 +1,201 @@
+import { NetworkRequest } from '../types';
+import { getHeaderValue } from './headers';
+import { wildcardToRegExp } from './urlPattern';
+
+// Keys of structured search terms (key:value); any other word is fuzzy-matched text
+export type FilterKey = 'status' | 'method' | 'domain' | 'type' | 'larger-than' | 'duration' | 'has-header' | 'mime';
+
+export interface FilterTerm {
+  key: FilterKey | null;                   // null = free text
+  value: string;
+  negated: boolean;                        // Written with a leading '-'
+  test?: (request: NetworkRequest) => boolean; // Structured terms only; text is matched by the caller
+}
+
+export interface FilterQuery {
+  groups: FilterTerm[][];                  // Groups joined by OR; terms within a group are ANDed
+  statusCodes: number[];                   // Codes a request must have when the query needs them ([] = any)
+  errors: string[];                        // Terms that were ignored, e.g. 'status:abc'
+  isPlainText: boolean;                    // Only words: fuzzy search the whole query as one string
+}
+
+type Comparison = (actual: number) => boolean;
+
+const FILTER_KEYS: FilterKey[] = ['status', 'method', 'domain', 'type', 'larger-than', 'duration', 'has-header', 'mime'];
+
+// Status codes a status term can name (0 = pending)
+const STATUS_CODES = [0, ...Array.from({ length: 500 }, (_, i) => i + 100)];
+
+/**
+ * Parse a search bar query such as `status:4xx -method:OPTIONS api OR larger-than:1m`.
+ *
+ * Terms are separated by spaces (double quotes keep spaces in a value) and ANDed; AND binds
+ * tighter than OR, as in most search syntaxes. A leading '-' negates a term.
+ */
+export function parseFilterQuery(query: string): FilterQuery {
+  const groups: FilterTerm[][] = [[]];
+  const errors: string[] = [];
+  let isPlainText = true;
+
+  tokenize(query).forEach(token => {
+    if (token === 'OR' || token === '|') {
+      groups.push([]);
+      isPlainText = false;
+      return;
+    }
+    if (token === 'AND') {
+      isPlainText = false;
+      return;
+    }
+
+    const negated = token.length > 1 && token.startsWith('-');
+    const body = negated ? token.slice(1) : token;
+    const separator = body.indexOf(':');
+    const key = body.slice(0, separator).toLowerCase() as FilterKey;
+
+    // Unknown keys are text, so URLs like http://... still search as typed
+    if (separator === -1 || !FILTER_KEYS.includes(key)) {
+      groups[groups.length - 1].push({ key: null, value: body, negated });
+      if (negated) isPlainText = false;
+      return;
+    }
+
+    isPlainText = false;
+    const value = body.slice(separator + 1);
+    const test = value ? createTest(key, value) : null;
+    if (test) {
+      groups[groups.length - 1].push({ key, value, negated, test });
+    } else {
+      errors.push(token);
+    }
+  });
+
+  return { ...extractStatusCodes(groups.filter(group => group.length > 0)), errors, isPlainText };
+}
+
+/**
+ * Whether a request matches the query's terms. Free text is matched by the caller (fuzzy search
+ * needs the whole list); statusCodes are checked separately as FilterState.statusCodes.
+ */
+export function matchesFilterQuery(
+  request: NetworkRequest,
+  query: FilterQuery,
+  matchesText: (request: NetworkRequest, text: string) => boolean
+): boolean {
+  if (query.groups.length === 0) return true;
+
+  return query.groups.some(group => group.every(term => {
+    const matches = term.test ? term.test(request) : matchesText(request, term.value);
+    return matches !== term.negated;
+  }));
+}
+
+// Split on spaces, keeping "quoted values" (and key:"quoted values") together
+function tokenize(query: string): string[] {
+  const tokens = query.match(/-?[^\s"]*"[^"]*"?|\S+/g) || [];
+  return tokens.map(token => token.replace(/"/g, '')).filter(token => token.length > 0);
+}
+
+// Predicate for a key:value term, or null when the value is invalid
+function createTest(key: FilterKey, value: string): ((request: NetworkRequest) => boolean) | null {
+  const lowerValue = value.toLowerCase();
+
+  switch (key) {
+    case 'status': {
+      const compare = parseStatus(value);
+      return compare && (request => compare(request.status));
+    }
+    case 'method':
+      return request => request.method.toLowerCase() === lowerValue;
+    case 'domain': {
+      const pattern = wildcardToRegExp(lowerValue);
+      return request => pattern.test(getHostname(request.url));
+    }
+    case 'type':
+      // Prefixes are enough: type:doc, type:style
+      return request => request.type.startsWith(lowerValue);
+    case 'larger-than': {
+      const bytes = parseBytes(value);
+      return bytes === null ? null : request => request.size > bytes;
+    }
+    case 'duration': {
+      const compare = parseComparison(value, parseMilliseconds, '>=');
+      return compare && (request => compare(request.duration));
+    }
+    case 'has-header':
+      return request => getHeaderValue(request.requestHeaders, value) !== undefined ||
+        getHeaderValue(request.responseHeaders, value) !== undefined;
+    case 'mime':
+      return request => (request.mimeType || getHeaderValue(request.responseHeaders, 'content-type') || '').toLowerCase().includes(lowerValue);
+  }
+}
+
+// 404, 4xx, >=400, <300
+function parseStatus(value: string): Comparison | null {
+  const statusClass = value.match(/^([1-5])xx$/i);
+  if (statusClass) {
+    const digit = Number(statusClass[1]);
+    return status => Math.floor(status / 100) === digit;
+  }
+  return parseComparison(value, number => /^\d+$/.test(number) ? Number(number) : null, '=');
+}
+
+// Optional >, >=, <, <= or = before a value; a bare value uses the default operator
+function parseComparison(value: string, parse: (text: string) => number | null, defaultOperator: string): Comparison | null {
+  const match = value.match(/^(>=|<=|>|<|=)?(.+)$/);
+  if (!match) return null;
+
+  const expected = parse(match[2]);
+  if (expected === null) return null;
+
+  switch (match[1] || defaultOperator) {
+    case '>': return actual => actual > expected;
+    case '>=': return actual => actual >= expected;
+    case '<': return actual => actual < expected;
+    case '<=': return actual => actual <= expected;
+    default: return actual => actual === expected;
+  }
+}
+
+// 500, 500ms, 1.5s
+function parseMilliseconds(text: string): number | null {
+  const match = text.match(/^(\d+(?:\.\d+)?)(ms|s)?$/i);
+  if (!match) return null;
+  return Number(match[1]) * (match[2]?.toLowerCase() === 's' ? 1000 : 1);
+}
+
+// 2048, 100k, 1.5m (k and m are binary, like the Size column)
+function parseBytes(text: string): number | null {
+  const match = text.match(/^(\d+(?:\.\d+)?)(k|kb|m|mb)?$/i);
+  if (!match) return null;
+
+  const unit = (match[2] || '').toLowerCase();
+  const multiplier = unit.startsWith('m') ? 1024 * 1024 : unit.startsWith('k') ? 1024 : 1;
+  return Number(match[1]) * multiplier;
+}
+
+function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Without OR, positive status terms only narrow the allowed codes: move them to statusCodes
+ * (applied like the type filter) instead of testing them per term.
+ */
+function extractStatusCodes(groups: FilterTerm[][]): { groups: FilterTerm[][]; statusCodes: number[] } {
+  if (groups.length !== 1) return { groups, statusCodes: [] };
+
+  const statusTerms = groups[0].filter(term => term.key === 'status' && !term.negated);
+  if (statusTerms.length === 0) return { groups, statusCodes: [] };
+
+  const statusCodes = STATUS_CODES.filter(code => statusTerms.every(term => term.test!({ status: code } as NetworkRequest)));
+
+  // [] would mean "any status": keep the terms so contradictory ones still match nothing
+  if (statusCodes.length === 0) return { groups, statusCodes: [] };
+
+  return { groups: [groups[0].filter(term => !statusTerms.includes(term))], statusCodes };
+}
@@ -0,0 +1,54 @@
+/**
+ * Look up a header value case-insensitively
+ */
+export function getHeaderValue(headers: Record<string, string>, name: string): string | undefined {
+  const lowerName = name.toLowerCase();
+  const key = Object.keys(headers).find(k => k.toLowerCase() === lowerName);
+  return key === undefined ? undefined : headers[key];
+}
+
+/**
+ * Format headers as editable "Name: value" lines
+ */
+export function formatHeaderLines(headers: Record<string, string>): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+}
+
+/**
+ * Parse "Name: value" lines back into a headers map (blank/invalid lines are skipped)
+ */
+export function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  
+  text.split('\n').forEach(line => {
+    const separator = line.indexOf(':', line.startsWith(':') ? 1 : 0); // Allow HTTP/2 pseudo-headers like :authority
+    if (separator <= 0) return;
+    
+    const name = line.slice(0, separator).trim();
+    if (name) {
+      headers[name] = line.slice(separator + 1).trim();
+    }
+  });
+  
+  return headers;
+}
+
+/**
+ * Convert a headers map to the [{ name, value }] list used by the Fetch domain
+ */
+export function toHeaderEntries(headers: Record<string, string>): { name: string; value: string }[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+/**
+ * Convert a Fetch domain [{ name, value }] list to a headers map
+ */
+export function fromHeaderEntries(entries: { name: string; value: string }[] = []): Record<string, string> {
+  const headers: Record<string, string> = {};
+  entries.forEach(({ name, value }) => {
+    headers[name] = value;
+  });
+  return headers;
+}
@@ -0,0 +1,93 @@
+import { NetworkRequest } from '../types';
+
+// Position of a request in the initiator tree view
+export interface TreeNode {
+  depth: number;                           // 0 for roots
+  parentId?: string;                       // Nearest visible ancestor
+  hasChildren: boolean;                    // Among the visible requests
+}
+
+/**
+ * Find the request that initiated each request: the document a parser request came from,
+ * the script on the initiator stack (innermost frame that was captured), or the request a
+ * preflight was sent for. Only earlier requests qualify, matched by URL.
+ * @returns map of request id -> parent request id (roots are absent)
+ */
+export function findInitiatorParents(requests: NetworkRequest[]): Map<string, string> {
+  const parents = new Map<string, string>();
+  const idsByUrl = new Map<string, string>(); // Latest request for each URL seen so far
+  const ids = new Set<string>();
+
+  requests.forEach(request => {
+    if (request.isSeparator) return;
+
+    const initiator = request.initiator;
+    let parentId: string | undefined;
+
+    if (initiator?.requestId && ids.has(initiator.requestId)) {
+      parentId = initiator.requestId;
+    } else if (initiator) {
+      const urls = initiator.stack.length > 0 ? initiator.stack.map(frame => frame.url) : [initiator.url];
+      const url = urls.find(candidate => candidate && idsByUrl.has(candidate));
+      parentId = url ? idsByUrl.get(url) : undefined;
+    }
+
+    if (parentId && parentId !== request.id) {
+      parents.set(request.id, parentId);
+    }
+    idsByUrl.set(request.url, request.id);
+    ids.add(request.id);
+  });
+
+  return parents;
+}
+
+/**
+ * Order visible requests depth-first under their initiators, skipping children of collapsed nodes.
+ * Requests whose initiator is filtered out hang off the nearest visible ancestor instead.
+ * @param visible requests after search/filters, in display order
+ * @param parents result of findInitiatorParents over all requests
+ * @param collapsed ids of nodes whose children are hidden
+ */
+export function orderAsTree(
+  visible: NetworkRequest[],
+  parents: Map<string, string>,
+  collapsed: Set<string>
+): { requests: NetworkRequest[]; nodes: Map<string, TreeNode> } {
+  const visibleIds = new Set(visible.map(request => request.id));
+  const children = new Map<string, NetworkRequest[]>();
+  const visibleParents = new Map<string, string>();
+  const roots: NetworkRequest[] = [];
+
+  visible.forEach(request => {
+    let parentId = parents.get(request.id);
+    while (parentId && !visibleIds.has(parentId)) {
+      parentId = parents.get(parentId);
+    }
+
+    if (parentId) {
+      visibleParents.set(request.id, parentId);
+      const siblings = children.get(parentId) || [];
+      siblings.push(request);
+      children.set(parentId, siblings);
+    } else {
+      roots.push(request);
+    }
+  });
+
+  const ordered: NetworkRequest[] = [];
+  const nodes = new Map<string, TreeNode>();
+
+  const visit = (request: NetworkRequest, depth: number) => {
+    const kids = children.get(request.id) || [];
+    ordered.push(request);
+    nodes.set(request.id, { depth, parentId: visibleParents.get(request.id), hasChildren: kids.length > 0 });
+
+    if (!collapsed.has(request.id)) {
+      kids.forEach(child => visit(child, depth + 1));
+    }
+  };
+  roots.forEach(root => visit(root, 0));
+
+  return { requests: ordered, nodes };
+}
@@ -16,3 +16,15 @@ export function safeStringify(value: unknown, indent?: number): string {
   }, indent);
 }
 
+
+/**
+ * Parse text as JSON, returning undefined instead of throwing
+ * Used for payloads that may or may not be JSON (e.g. WebSocket frames)
+ */
+export function tryParseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
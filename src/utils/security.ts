@@ -0,0 +1,76 @@
+import { NetworkRequest } from '../types';
+
+// Lock/warning shown next to the status in the request list
+export type SecurityIndicator = 'secure' | 'insecure' | 'mixed';
+
+/**
+ * Chrome's verdict for the request, downgraded when the certificate itself looks wrong
+ * (staging hosts often run with certificate errors ignored). Null for neutral/unknown.
+ */
+export function getSecurityIndicator(request: NetworkRequest): SecurityIndicator | null {
+  if (isMixedContent(request)) return 'mixed';
+  if (request.securityState === 'insecure' || request.securityState === 'insecure-broken') return 'insecure';
+  if (getCertificateProblems(request).length > 0) return 'insecure';
+  if (request.securityState === 'secure') return 'secure';
+  return null;
+}
+
+export function isInsecureRequest(request: NetworkRequest): boolean {
+  const indicator = getSecurityIndicator(request);
+  return indicator === 'insecure' || indicator === 'mixed';
+}
+
+// Plain HTTP subresources of an HTTPS page, whether Chrome let them load or not
+export function isMixedContent(request: NetworkRequest): boolean {
+  return request.mixedContentType === 'blockable' ||
+    request.mixedContentType === 'optionally-blockable' ||
+    request.blockedReason === 'mixed-content';
+}
+
+/**
+ * Certificate name check as browsers do it: case-insensitive, and a wildcard only
+ * covers a single leftmost label ("*.example.com" matches "a.example.com", not "a.b.example.com").
+ */
+export function matchesCertificateName(hostname: string, name: string): boolean {
+  const host = hostname.toLowerCase();
+  const pattern = name.toLowerCase();
+
+  if (!pattern.startsWith('*.')) return host === pattern;
+
+  const firstDot = host.indexOf('.');
+  return firstDot > 0 && host.slice(firstDot) === pattern.slice(1);
+}
+
+// Host the certificate has to cover (URL keeps IPv6 addresses in brackets)
+export function getRequestHostname(request: NetworkRequest): string {
+  try {
+    return new URL(request.url).hostname.replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    return '';
+  }
+}
+
+// Why the certificate would not be trusted for this request, empty when it looks fine
+export function getCertificateProblems(request: NetworkRequest): string[] {
+  const details = request.securityDetails;
+  if (!details) return [];
+
+  const problems: string[] = [];
+  const hostname = getRequestHostname(request);
+  if (hostname && !details.sanList.some(name => matchesCertificateName(hostname, name))) {
+    problems.push(`Certificate is not valid for ${hostname}`);
+  }
+
+  const now = Date.now() / 1000;
+  if (details.validTo < now) {
+    problems.push(`Certificate expired on ${new Date(details.validTo * 1000).toUTCString()}`);
+  }
+  if (details.validFrom > now) {
+    problems.push(`Certificate is not valid until ${new Date(details.validFrom * 1000).toUTCString()}`);
+  }
+  if (details.certificateTransparencyCompliance === 'not-compliant') {
+    problems.push('Certificate does not comply with Certificate Transparency');
+  }
+
+  return problems;
+}
@@ -0,0 +1,43 @@
+import { NetworkRequest, RequestSort, SortColumn, SortDirection } from '../types';
+
+// Value each sortable column compares (pending requests have status, size and duration 0)
+const SORT_KEYS: Record<SortColumn, (request: NetworkRequest) => string | number> = {
+  name: request => request.name.toLowerCase(),
+  status: request => request.status,
+  method: request => request.method,
+  type: request => request.type,
+  size: request => request.size,
+  duration: request => request.duration,
+  start: request => request.timestamp
+};
+
+export const SORT_COLUMNS = Object.keys(SORT_KEYS) as SortColumn[];
+
+export function isSortColumn(value: string): value is SortColumn {
+  return Object.prototype.hasOwnProperty.call(SORT_KEYS, value);
+}
+
+// Direction of the first sort on a column: largest/slowest/errors first for numbers, A-Z for text and time
+export function getDefaultSortDirection(column: SortColumn): SortDirection {
+  return column === 'size' || column === 'duration' || column === 'status' ? 'desc' : 'asc';
+}
+
+/**
+ * Sorted copy of the list. Stable, so ties keep capture order (or search relevance).
+ * Navigation separators are dropped: they only mean something in capture order.
+ */
+export function sortRequests(requests: NetworkRequest[], sort: RequestSort): NetworkRequest[] {
+  const getKey = SORT_KEYS[sort.column];
+  const sign = sort.direction === 'asc' ? 1 : -1;
+
+  return requests
+    .filter(request => !request.isSeparator)
+    .sort((a, b) => {
+      const keyA = getKey(a);
+      const keyB = getKey(b);
+      const order = typeof keyA === 'number' && typeof keyB === 'number'
+        ? keyA - keyB
+        : String(keyA).localeCompare(String(keyB));
+      return order * sign;
+    });
+}
@@ -0,0 +1,74 @@
+import { RequestTiming } from '../types';
+
+// Duration between two ResourceTiming offsets, or -1 if the phase did not happen
+function phase(start: number, end: number): number {
+  return start >= 0 && end >= 0 ? end - start : -1;
+}
+
+/**
+ * Convert Chrome's ResourceTiming (offsets in ms from requestTime, -1 = n/a)
+ * into HAR-style phase durations. The receive phase is filled in later,
+ * once loadingFinished tells us when the body finished downloading.
+ * @param resourceTiming `response.timing` from Network.responseReceived
+ * @param requestTimestamp NetworkRequest.timestamp (ms, same clock as requestTime)
+ */
+export function buildRequestTiming(resourceTiming: any, requestTimestamp: number): RequestTiming {
+  const t = resourceTiming;
+  
+  // Everything before the first network phase counts as blocked (queueing + stalled)
+  const firstPhaseStart = [t.dnsStart, t.connectStart, t.sendStart].find((value: number) => value >= 0) ?? 0;
+  const queued = t.requestTime * 1000 - requestTimestamp;
+
+  return {
+    blocked: Math.max(0, queued + firstPhaseStart),
+    dns: phase(t.dnsStart, t.dnsEnd),
+    connect: phase(t.connectStart, t.connectEnd),
+    ssl: phase(t.sslStart, t.sslEnd),
+    send: Math.max(0, phase(t.sendStart, t.sendEnd)),
+    wait: Math.max(0, phase(t.sendEnd, t.receiveHeadersEnd)),
+    receive: 0
+  };
+}
+
+/**
+ * Time from request start until response headers arrived (ms)
+ * ssl is skipped because it is already part of connect
+ */
+export function getTimeToHeaders(timing: RequestTiming): number {
+  return timing.blocked +
+    Math.max(0, timing.dns) +
+    Math.max(0, timing.connect) +
+    timing.send +
+    timing.wait;
+}
+
+export interface TimingSegment {
+  phase: keyof RequestTiming;
+  start: number;                           // Offset from request start (ms)
+  duration: number;                        // Phase duration (ms)
+}
+
+/**
+ * Lay phases out back to back from the request start, skipping phases that did not happen.
+ * ssl is placed over the tail of connect, since it is part of the connection time.
+ */
+export function getTimingSegments(timing: RequestTiming): TimingSegment[] {
+  const order: (keyof RequestTiming)[] = ['blocked', 'dns', 'connect', 'ssl', 'send', 'wait', 'receive'];
+  const segments: TimingSegment[] = [];
+  let offset = 0;
+
+  order.forEach(phase => {
+    const duration = timing[phase];
+    if (duration < 0) return; // Phase did not happen
+
+    if (phase === 'ssl') {
+      segments.push({ phase, start: Math.max(0, offset - duration), duration });
+      return;
+    }
+
+    segments.push({ phase, start: offset, duration });
+    offset += duration;
+  });
+
+  return segments;
+}
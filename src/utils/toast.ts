@@ -0,0 +1,23 @@
+/**
+ * Show a short-lived toast notification in the bottom-right corner
+ * @param message Text to display
+ */
+export function showToast(message: string): void {
+  const toast = document.createElement('div');
+  toast.className = 'toast';
+  toast.textContent = message;
+  document.body.appendChild(toast);
+  
+  setTimeout(() => {
+    toast.classList.add('visible');
+  }, 10);
+  
+  setTimeout(() => {
+    toast.classList.remove('visible');
+    setTimeout(() => {
+      if (toast.parentNode) {
+        document.body.removeChild(toast);
+      }
+    }, 300);
+  }, 2000);
+}
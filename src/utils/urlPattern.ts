@@ -0,0 +1,42 @@
+// Patterns wrapped in slashes (/api\/users\/\d+/) are regular expressions
+export function isRegexPattern(pattern: string): boolean {
+  return pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/');
+}
+
+// Convert a Fetch domain wildcard pattern (* = any characters, ? = one character, \ escapes) to a RegExp
+export function wildcardToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Check a URL against a wildcard or /regex/ pattern (invalid regexes never match)
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  try {
+    const regex = isRegexPattern(pattern) ? new RegExp(pattern.slice(1, -1)) : wildcardToRegExp(pattern);
+    return regex.test(url);
+  } catch {
+    return false;
+  }
+}
+
+// Wildcard pattern matching every URL of an endpoint, ignoring the query string
+export function getEndpointPattern(url: string): string {
+  try {
+    const { origin, pathname } = new URL(url);
+    return `${origin}${pathname}*`;
+  } catch {
+    return url;
+  }
+}